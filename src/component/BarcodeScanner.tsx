@@ -1,6 +1,10 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import "./../index.css"
-import type { ApiResponse, ScannedItem } from '../types';
+import type { ScannedItem } from '../types';
+import { apiClient, describeApiError } from '../services/apiClient';
+import ExportPanel from './ExportPanel';
+import ScannedItemsList from './ScannedItemsList';
+import ConfirmDialog from './ConfirmDialog';
 
 
 const BarcodeScanner: React.FC = () => {
@@ -8,6 +12,7 @@ const BarcodeScanner: React.FC = () => {
   const [scannedItems, setScannedItems] = useState<ScannedItem[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [message, setMessage] = useState<string>('');
+  const [confirmingClear, setConfirmingClear] = useState<boolean>(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -38,26 +43,13 @@ const BarcodeScanner: React.FC = () => {
     setMessage(`Processing barcode: ${barcode}`);
     
     try {
-      const response = await fetch('http://localhost:5000/api/scan', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ barcode }),
-      });
-
-      const result: ApiResponse<ScannedItem> = await response.json();
-
-      if (response.ok && result.data) {
-        setScannedItems(prev => [result.data!, ...prev]);
-        setBarcodeInput('');
-        setMessage(`Scanned: ${result.data.name}`);
-      } else {
-        setMessage(result.error || 'Error processing barcode');
-      }
+      const item = await apiClient.scan({ barcode });
+      setScannedItems(prev => [item, ...prev]);
+      setBarcodeInput('');
+      setMessage(`Scanned: ${item.name}`);
     } catch (error) {
       console.error('Error:', error);
-      setMessage('Network error - is the server running?');
+      setMessage(describeApiError(error, 'Error processing barcode'));
     } finally {
       setIsLoading(false);
     }
@@ -66,12 +58,8 @@ const BarcodeScanner: React.FC = () => {
   // Fetch all scanned items
   const fetchItems = async (): Promise<void> => {
     try {
-      const response = await fetch('http://localhost:5000/api/items');
-      const result: ApiResponse<ScannedItem[]> = await response.json();
-      
-      if (response.ok && result.data) {
-        setScannedItems(result.data);
-      }
+      const items = await apiClient.getItems();
+      setScannedItems(items);
     } catch (error) {
       console.error('Error fetching items:', error);
     }
@@ -80,18 +68,12 @@ const BarcodeScanner: React.FC = () => {
   // Clear all items
   const clearItems = async (): Promise<void> => {
     try {
-      const response = await fetch('http://localhost:5000/api/items', {
-        method: 'DELETE',
-      });
-      
-      const result: ApiResponse = await response.json();
-      
-      if (response.ok) {
-        setScannedItems([]);
-        setMessage(result.message || 'All items cleared');
-      }
+      const serverMessage = await apiClient.clearItems();
+      setScannedItems([]);
+      setMessage(serverMessage || 'All items cleared');
     } catch (error) {
       console.error('Error clearing items:', error);
+      setMessage(describeApiError(error, 'Error clearing items'));
     }
   };
 
@@ -128,33 +110,27 @@ const BarcodeScanner: React.FC = () => {
         <button onClick={fetchItems} disabled={isLoading}>
           Refresh List
         </button>
-        <button onClick={clearItems} disabled={isLoading} className="clear-btn">
+        <button onClick={() => setConfirmingClear(true)} disabled={isLoading} className="clear-btn">
           Clear All
         </button>
       </div>
 
-      <div className="results">
-        <h2>Scanned Items ({scannedItems.length})</h2>
-        
-        {scannedItems.length === 0 ? (
-          <p>No items scanned yet.</p>
-        ) : (
-          <div className="items-list">
-            {scannedItems.map(item => (
-              <div key={item.id} className="item-card">
-                <div className="item-info">
-                  <h3>{item.name}</h3>
-                  <p>Barcode: {item.barcode}</p>
-                  <p>Price: ${item.price.toFixed(2)}</p>
-                </div>
-                <div className="item-meta">
-                  <span>Scanned at: {item.timestamp}</span>
-                </div>
-              </div>
-            ))}
-          </div>
-        )}
-      </div>
+      {confirmingClear && (
+        <ConfirmDialog
+          title="Clear all scanned items?"
+          message={`This permanently deletes all ${scannedItems.length} item(s) on the server and cannot be undone.`}
+          confirmLabel="Clear All"
+          onConfirm={() => {
+            setConfirmingClear(false);
+            clearItems();
+          }}
+          onCancel={() => setConfirmingClear(false)}
+        />
+      )}
+
+      <ExportPanel items={scannedItems} />
+
+      <ScannedItemsList items={scannedItems} onItemsChange={setScannedItems} />
     </div>
   );
 };
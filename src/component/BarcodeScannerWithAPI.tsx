@@ -1,29 +1,104 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import "./../index.css"
-import type { ApiResponse, ScannedItem } from '../types';
-import { BarcodeDetectionService } from '../services/barcodeDetectionService';
-
-interface BarcodeDetectionResult {
-  success: boolean;
-  barcode?: string;
-  error?: string;
-  format?: string;
-}
+import type { Product, ScannedItem, ScanRequest, ScanSource } from '../types';
+import { apiClient, describeApiError, HttpError, isAbortError, NetworkError } from '../services/apiClient';
+import { catalogService } from '../services/catalogService';
+import { canonicalGtin, validateBarcode, validateForFormat } from '../services/barcodeValidation';
+import { describeGs1Fields, Gs1ParseError, gs1ProductCode, parseGs1 } from '../services/gs1';
+import { scanSessions, type ScanSession, type SessionScan } from '../services/scanSessions';
+import { stockCount } from '../services/stockCount';
+import { pickVerification } from '../services/pickVerification';
+import { scanFeedback, type ScanOutcome } from '../services/scanFeedback';
+import {
+  BarcodeDetectionService,
+  ImageLoadError,
+  type BarcodeDetectionResult,
+  type DecodeMetrics
+} from '../services/barcodeDetectionService';
+import { offlineScanQueue } from '../services/offlineScanQueue';
+import {
+  listenForWedgeScans,
+  loadWedgeConfig,
+  saveWedgeConfig,
+  type WedgeConfig,
+  type WedgeScan
+} from '../services/keyboardWedge';
+import { BARCODE_FORMATS, type BarcodeFormat } from '../services/decoders/formats';
+import {
+  classifyQrPayload,
+  describeQrPayload,
+  isProductPayload,
+  loadLinkAllowlist,
+  QR_PAYLOAD_LABELS,
+  saveLinkAllowlist,
+  type QrPayload
+} from '../services/qrPayload';
+import { scannerDevices } from '../services/scannerDevices';
+import {
+  loadCameraPreferences,
+  saveCameraPreferences,
+  scanArea,
+  type CameraPreferences
+} from '../services/cameraControls';
+import {
+  DEFAULT_CONFIRMATION_POLICY,
+  ScanConfirmationFilter,
+  type ConfirmationPolicy,
+  type ScanConfidence
+} from '../services/scanConfirmation';
+import { useBarcodeCamera } from '../hooks/useBarcodeCamera';
+import OfflineQueueStatus from './OfflineQueueStatus';
+import ImageDetectionPicker from './ImageDetectionPicker';
+import CreateProductForm from './CreateProductForm';
+import ScanConfirmationSettings from './ScanConfirmationSettings';
+import ScanSessionPanel from './ScanSessionPanel';
+import StockCountPanel from './StockCountPanel';
+import PickVerificationPanel from './PickVerificationPanel';
+import ExportPanel from './ExportPanel';
+import ScannedItemsList from './ScannedItemsList';
+import ConfirmDialog from './ConfirmDialog';
+import CameraSettingsPanel from './CameraSettingsPanel';
+import CameraOverlay from './CameraOverlay';
+import ImportPanel from './ImportPanel';
+import WedgeSettings from './WedgeSettings';
+import ScannerDevicesPanel from './ScannerDevicesPanel';
+import FeedbackSettings from './FeedbackSettings';
+import ScanFlash from './ScanFlash';
+import QrPayloadView from './QrPayloadView';
+
+/** Extra data carried with a scan besides the barcode itself */
+type ScanDetails = Pick<ScanRequest, 'gs1' | 'format' | 'quantity'>;
 
 const BarcodeScannerWithAPI: React.FC = () => {
   const [barcodeInput, setBarcodeInput] = useState<string>('');
   const [scannedItems, setScannedItems] = useState<ScannedItem[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [message, setMessage] = useState<string>('');
-  const [cameraActive, setCameraActive] = useState<boolean>(false);
+  const [confirmingClear, setConfirmingClear] = useState<boolean>(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [scanMode, setScanMode] = useState<'manual' | 'camera' | 'upload'>('manual');
-  const [cameraInitialized, setCameraInitialized] = useState<boolean>(false);
+  const [scanMode, setScanMode] = useState<'manual' | 'camera' | 'upload' | 'import'>('manual');
+  const [confirmationPolicy, setConfirmationPolicy] = useState<ConfirmationPolicy>(DEFAULT_CONFIRMATION_POLICY);
+  const [repeatPrompt, setRepeatPrompt] = useState<BarcodeDetectionResult | null>(null);
+  const [lastConfidence, setLastConfidence] = useState<ScanConfidence | null>(null);
+  const [confirmationFilter] = useState(() => new ScanConfirmationFilter(DEFAULT_CONFIRMATION_POLICY));
+  const [detectedCodes, setDetectedCodes] = useState<BarcodeDetectionResult[]>([]);
+  const [selectedCodes, setSelectedCodes] = useState<Set<number>>(new Set());
+  const [decodeMetrics, setDecodeMetrics] = useState<DecodeMetrics | null>(null);
+  const [productPreview, setProductPreview] = useState<{ product: Product; stale: boolean } | null>(null);
+  const [inputError, setInputError] = useState<string>('');
+  const [unknownScan, setUnknownScan] = useState<{ barcode: string; source: ScanSource; details: ScanDetails } | null>(null);
+  const [activeSession, setActiveSession] = useState<ScanSession | null>(null);
+  const [cameraPreferences, setCameraPreferences] = useState<CameraPreferences>(() => loadCameraPreferences());
+  const [wedgeConfig, setWedgeConfig] = useState<WedgeConfig>(loadWedgeConfig);
+  const [qrPayload, setQrPayload] = useState<{ id: number; payload: QrPayload } | null>(null);
+  const [linkAllowlist, setLinkAllowlist] = useState<string[]>(loadLinkAllowlist);
   
   const inputRef = useRef<HTMLInputElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const decodeAbortRef = useRef<AbortController | null>(null);
+  const wedgeScanRef = useRef<(scan: WedgeScan) => void>(() => undefined);
+  const deviceScanRef = useRef<(result: BarcodeDetectionResult) => void>(() => undefined);
+  const lastRecordedRef = useRef<string | null>(null);
 
   useEffect(() => {
     if (inputRef.current && scanMode === 'manual') {
@@ -35,102 +110,418 @@ const BarcodeScannerWithAPI: React.FC = () => {
     fetchItems();
   }, []);
 
+  useEffect(() => scanSessions.subscribe(snapshot => setActiveSession(snapshot.active)), []);
+
+  useEffect(() => {
+    confirmationFilter.setPolicy(confirmationPolicy);
+  }, [confirmationFilter, confirmationPolicy]);
+
+  // Leaving upload mode (or unmounting) cancels any image still being decoded
+  useEffect(() => {
+    if (scanMode !== 'upload') {
+      return;
+    }
+    return () => {
+      decodeAbortRef.current?.abort();
+    };
+  }, [scanMode]);
+
+  // Replay scans queued while offline and show them once the server accepts them
   useEffect(() => {
+    const unsubscribe = offlineScanQueue.onSynced((item) => {
+      setScannedItems(prev => [item, ...prev]);
+      void scanSessions.confirmProduct(item.barcode, item.name, item.price);
+    });
+    offlineScanQueue.start().catch(error => {
+      console.error('Offline queue unavailable:', error);
+    });
     return () => {
-      BarcodeDetectionService.cleanup();
+      unsubscribe();
+      offlineScanQueue.stop();
     };
   }, []);
 
-  const handleBarcodeScan = useCallback(async (event: React.KeyboardEvent<HTMLInputElement>) =>   {
+  // Every scan outcome passes through here, so sound, vibration and flash always match the message
+  const reportScan = (outcome: ScanOutcome, text?: string): void => {
+    if (text !== undefined) {
+      setMessage(text);
+    }
+    scanFeedback.signal(outcome);
+  };
+
+  /**
+   * QR codes also carry links, contacts, Wi-Fi logins and the like. Those are
+   * shown rather than looked up; returns false for product codes.
+   */
+  const showQrPayload = (data: string): boolean => {
+    const payload = classifyQrPayload(data);
+    if (isProductPayload(payload)) {
+      return false;
+    }
+    setQrPayload(prev => ({ id: (prev?.id ?? 0) + 1, payload }));
+    reportScan('success', `QR code - ${QR_PAYLOAD_LABELS[payload.kind]}: ${describeQrPayload(payload)}`);
+    return true;
+  };
+
+  const changeLinkAllowlist = (domains: string[]): void => {
+    setLinkAllowlist(domains);
+    saveLinkAllowlist(domains);
+  };
+
+  const handleBarcodeScan = async (event: React.KeyboardEvent<HTMLInputElement>): Promise<void> => {
     if (event.key === 'Enter') {
       event.preventDefault();
-      const barcode = barcodeInput.trim();
+      let barcode = barcodeInput.trim();
+
+      // "12*" counts the next scan twelve times; "12*<barcode>" applies it straight away
+      const multiplier = /^(\d+)\s*\*\s*(.*)$/.exec(barcode);
+      if (multiplier) {
+        const quantity = Number(multiplier[1]);
+        if (quantity < 1) {
+          setInputError('Quantity must be at least 1');
+          return;
+        }
+        scanSessions.setNextMultiplier(quantity);
+        setInputError('');
+        barcode = multiplier[2];
+        if (!barcode) {
+          setBarcodeInput('');
+          setMessage(`Next scan will count as ${quantity}`);
+          return;
+        }
+      }
       
       if (barcode) {
-        await processBarcode(barcode);
+        await submitKeyedBarcode(barcode, 'manual');
       }
     }
-  }, [barcodeInput]);
+  };
 
-  const processBarcode = async (barcode: string): Promise<void> => {
-    setIsLoading(true);
-    setMessage(`Processing barcode: ${barcode}`);
-    
+  /**
+   * Typed or wedge-scanned text. `aimId` and `format` come from the scanner's
+   * symbology identifier when it sends one.
+   */
+  const submitKeyedBarcode = async (
+    barcode: string,
+    source: ScanSource,
+    aimId = '',
+    format?: BarcodeFormat
+  ): Promise<void> => {
+    // A wedge scan can arrive in any mode, so its problems go to the main message
+    const reject = (reason: string): void => {
+      if (source === 'wedge') {
+        reportScan('invalid', `Rejected scan ${barcode}: ${reason}`);
+      } else {
+        setInputError(reason);
+        reportScan('invalid');
+      }
+    };
+
+    if (format === BARCODE_FORMATS.qrCode && showQrPayload(barcode)) {
+      setInputError('');
+      return;
+    }
+
+    // Keyboard-wedge scanners send GS1-128 labels as element strings
+    let gs1;
     try {
-      const response = await fetch('http://localhost:5000/api/scan', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ barcode }),
+      gs1 = parseGs1(aimId + barcode);
+    } catch (error) {
+      if (error instanceof Gs1ParseError) {
+        reject(error.message);
+        return;
+      }
+      throw error;
+    }
+    if (gs1) {
+      setInputError('');
+      await processBarcode(gs1ProductCode(gs1, barcode), source, { gs1: gs1.fields, format });
+      return;
+    }
+
+    // Catch typos before they reach the server
+    const validation = format ? validateForFormat(barcode, format) : validateBarcode(barcode);
+    if (!validation.valid) {
+      reject(validation.reason ?? 'Invalid barcode');
+      return;
+    }
+    setInputError('');
+    await processBarcode(validation.value, source, { format });
+  };
+
+  useEffect(() => {
+    wedgeScanRef.current = (scan: WedgeScan) => {
+      void submitKeyedBarcode(scan.code, 'wedge', scan.aimId, scan.format);
+    };
+  });
+
+  // Hardware scans are caught wherever focus is; the listener only restarts when its settings change
+  useEffect(() => {
+    if (!wedgeConfig.enabled) {
+      return;
+    }
+    return listenForWedgeScans(wedgeConfig, scan => wedgeScanRef.current(scan));
+  }, [wedgeConfig]);
+
+  // Dedicated scanners report in any mode, like the wedge
+  useEffect(() => {
+    deviceScanRef.current = (result: BarcodeDetectionResult) => {
+      if (!result.success || !result.barcode) {
+        reportScan('invalid', `Rejected scan ${result.barcode ?? ''}: ${result.error ?? 'Invalid barcode'}`);
+        return;
+      }
+      submitDetection(result, 'device');
+    };
+  });
+
+  useEffect(() => scannerDevices.onScan(result => deviceScanRef.current(result)), []);
+
+  const changeWedgeConfig = (config: WedgeConfig): void => {
+    setWedgeConfig(config);
+    saveWedgeConfig(config);
+  };
+
+  // Show what the local catalog knows right away, then revalidate it in the background if it is old
+  const previewProduct = async (barcode: string): Promise<Product | undefined> => {
+    const cached = await catalogService.getCached(barcode);
+    const fresh = cached ? catalogService.isFresh(cached) : false;
+    setProductPreview(cached ? { product: cached.product, stale: !fresh } : null);
+
+    if (cached && !fresh && navigator.onLine) {
+      catalogService.lookup(barcode).then(lookup => {
+        if (lookup.status === 'found') {
+          setProductPreview(prev => prev && prev.product.barcode === barcode
+            ? { product: lookup.product, stale: lookup.stale }
+            : prev);
+        }
       });
+    }
+    return cached?.product;
+  };
+
+  // A session that can't be saved shouldn't fail the scan itself
+  const countInSession = async (scan: SessionScan, quantity: number): Promise<void> => {
+    try {
+      await scanSessions.addScan(scan, quantity);
+    } catch (error) {
+      console.error('Error adding scan to session:', error);
+    }
+  };
 
-      const result: ApiResponse<ScannedItem> = await response.json();
+  // Offline scans count in the session now; name and price are filled in once they sync
+  const countQueuedInSession = (barcode: string, quantity: number, details: ScanDetails, product?: Product): Promise<void> =>
+    countInSession({
+      barcode,
+      name: product?.name ?? barcode,
+      price: product?.price ?? 0,
+      gs1: details.gs1,
+      format: details.format,
+      unconfirmed: true,
+    }, quantity);
+
+  // During a stock count scans are tallied locally; only the final report goes to the server
+  const countStock = async (barcode: string, quantity: number): Promise<void> => {
+    const cached = await catalogService.getCached(barcode);
+    const line = await stockCount.count(barcode, quantity, cached?.product.name);
+    if (!line) {
+      reportScan('error', `Not counted: ${barcode} - the count is being submitted`);
+      return;
+    }
+    setBarcodeInput('');
+    if (line.status === 'unexpected') {
+      reportScan('unknown', `Counted ${line.name ?? barcode}: ${line.counted} - not expected at this location`);
+    } else {
+      reportScan('success', `Counted ${line.name ?? barcode}: ${line.counted} of ${line.expected}`);
+    }
+  };
 
-      if (response.ok && result.data) {
-        setScannedItems(prev => [result.data!, ...prev]);
-        setBarcodeInput('');
-        setMessage(`Scanned: ${result.data.name}`);
-      } else {
-        setMessage(result.error || 'Error processing barcode');
+  // While picking an order, scans are checked against its lines instead of recorded
+  const verifyPick = async (barcode: string, quantity: number): Promise<void> => {
+    const outcome = await pickVerification.pick(barcode, quantity);
+    if (!outcome) {
+      return;
+    }
+    setBarcodeInput('');
+    switch (outcome.status) {
+      case 'wrong-item':
+        reportScan('error', `Wrong item: ${barcode} is not on this order`);
+        break;
+      case 'over-pick':
+        reportScan('error', `Over-pick: only ${outcome.line.quantity} of ${outcome.line.name ?? barcode} needed`);
+        break;
+      case 'line-complete':
+        reportScan('success', `Picked all ${outcome.line.quantity} of ${outcome.line.name ?? barcode}`);
+        break;
+      case 'picked':
+        reportScan('success', `Picked ${outcome.line.name ?? barcode}: ${outcome.line.picked} of ${outcome.line.quantity}`);
+        break;
+    }
+  };
+
+  // Store the scan for later replay; returns false if even the queue is unavailable
+  const queueScan = async (
+    request: ScanRequest & { source: ScanSource },
+    reason?: string,
+    product?: Product
+  ): Promise<boolean> => {
+    try {
+      await offlineScanQueue.enqueue(request, reason);
+      setBarcodeInput('');
+      reportScan('queued', `Offline - ${product ? product.name : request.barcode} queued and will be sent when the server is reachable`);
+      return true;
+    } catch (queueError) {
+      console.error('Error queueing scan:', queueError);
+      return false;
+    }
+  };
+
+  const processBarcode = async (scannedBarcode: string, source: ScanSource, details: ScanDetails = {}): Promise<void> => {
+    const barcode = canonicalGtin(scannedBarcode);
+    const scannedAt = new Date().toISOString();
+    const { gs1, format } = details;
+    const quantity = details.quantity ?? scanSessions.takeMultiplier();
+    const request = { barcode, source, scannedAt, gs1, format, quantity: quantity > 1 ? quantity : undefined };
+
+    // Neither should silently win, so the scan goes nowhere until one is finished
+    if (stockCount.isCounting() && pickVerification.isPicking()) {
+      reportScan('error', 'A stock count and a pick are both in progress - finish or cancel one to keep scanning');
+      return;
+    }
+    if (stockCount.isCounting()) {
+      await countStock(barcode, quantity);
+      return;
+    }
+    if (pickVerification.isPicking()) {
+      await verifyPick(barcode, quantity);
+      return;
+    }
+
+    setIsLoading(true);
+    setMessage(`Processing barcode: ${barcode}`);
+    setUnknownScan(null);
+    const cachedProduct = await previewProduct(barcode);
+
+    try {
+      // Keep scans in order: while older ones are still queued, new ones wait behind them
+      if (!navigator.onLine || offlineScanQueue.hasBacklog()) {
+        if (await queueScan(request, navigator.onLine ? undefined : 'Device offline', cachedProduct)) {
+          await countQueuedInSession(barcode, quantity, details, cachedProduct);
+          return;
+        }
       }
+
+      const scanned = await apiClient.scan(request);
+      const item = { ...scanned, gs1: scanned.gs1 ?? gs1, format: scanned.format ?? format };
+      setScannedItems(prev => [item, ...prev]);
+      setBarcodeInput('');
+      // Still recorded, but a double scan is usually a mistake worth hearing
+      const repeated = lastRecordedRef.current === item.barcode;
+      lastRecordedRef.current = item.barcode;
+      reportScan(repeated ? 'duplicate' : 'success', repeated ? `Scanned again: ${item.name}` : `Scanned: ${item.name}`);
+      setProductPreview(prev => ({
+        product: { ...(prev?.product.barcode === barcode ? prev.product : {}), barcode, name: item.name, price: item.price },
+        stale: false,
+      }));
+      catalogService.rememberScan(item);
+      await countInSession({ barcode: item.barcode, name: item.name, price: item.price, gs1, format }, quantity);
     } catch (error) {
       console.error('Error:', error);
-      setMessage('Network error - is the server running?');
+      if (error instanceof NetworkError &&
+        await queueScan(request, describeApiError(error, error.message), cachedProduct)) {
+        await countQueuedInSession(barcode, quantity, details, cachedProduct);
+        return;
+      }
+      if (error instanceof HttpError && error.status === 404) {
+        // Keep the quantity so the scan counts the same once the product exists
+        setUnknownScan({ barcode, source, details: { gs1, format, quantity } });
+        setProductPreview(null);
+        reportScan('unknown', `Unknown barcode ${barcode} - add it to the catalog below`);
+        return;
+      }
+      reportScan('error', describeApiError(error, 'Error processing barcode'));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const startCamera = async (): Promise<void> => {
-    try {
-      setMessage('Initializing camera...');
-      
-      const success = await BarcodeDetectionService.initializeCamera('camera-container');
-      if (success) {
-        setCameraInitialized(true);
-        setCameraActive(true);
-        setMessage('Camera started. Point at a barcode to scan.');
-        
-        // Start detection
-        BarcodeDetectionService.startCameraDetection((result: BarcodeDetectionResult) => {
-          if (result.success && result.barcode) {
-            console.log('📱 Camera detected barcode:', result.barcode);
-            processBarcode(result.barcode);
-          }
-        });
-      } else {
-        setMessage('Failed to initialize camera. Please check permissions.');
-      }
-    } catch (error) {
-      console.error('Error accessing camera:', error);
-      setMessage('Error accessing camera. Please check permissions.');
+  // Submit a decoded barcode, looking GS1 labels up by their GTIN and keeping the other fields
+  const submitDetection = (result: BarcodeDetectionResult, source: ScanSource): Promise<void> => {
+    const barcode = result.barcode ?? '';
+    if (result.format === BARCODE_FORMATS.qrCode && showQrPayload(barcode)) {
+      return Promise.resolve();
     }
+    return result.gs1
+      ? processBarcode(gs1ProductCode(result.gs1, barcode), source, { gs1: result.gs1.fields, format: result.format })
+      : processBarcode(barcode, source, { format: result.format });
   };
 
-  // Stop camera
-  const stopCamera = (): void => {
-    BarcodeDetectionService.stopCameraDetection();
-    setCameraActive(false);
-    setCameraInitialized(false);
-    setMessage('');
+  // Report the barcodes the confirmation filter lets through
+  const handleCameraDetection = (result: BarcodeDetectionResult): void => {
+    if (!result.success || !result.barcode) {
+      return;
+    }
+    console.log('📱 Camera detected barcode:', result.barcode);
+    setLastConfidence(result.confidence ?? null);
+
+    if (result.isRepeat && confirmationFilter.getPolicy().promptOnRepeat) {
+      // Keep the first pending prompt; further repeats wait for the operator's answer
+      setRepeatPrompt(prev => prev ?? result);
+      return;
+    }
+    submitDetection(result, 'camera');
   };
 
-  // Capture image from camera and scan
-  const captureAndScan = async (): Promise<void> => {
-    if (!videoRef.current || !canvasRef.current) return;
+  const camera = useBarcodeCamera({
+    live: { containerId: 'camera-container', onDetected: handleCameraDetection, filter: confirmationFilter }
+  });
+  const { stop: stopCameraStream } = camera;
+
+  const startCamera = (preferences: CameraPreferences = cameraPreferences): Promise<void> => {
+    confirmationFilter.reset();
+    setRepeatPrompt(null);
+    setLastConfidence(null);
+    return camera.start(preferences);
+  };
 
-    const canvas = canvasRef.current;
-    const video = videoRef.current;
-    const context = canvas.getContext('2d');
+  const stopCamera = useCallback((): void => {
+    stopCameraStream();
+    confirmationFilter.reset();
+    setRepeatPrompt(null);
+    setLastConfidence(null);
+  }, [stopCameraStream, confirmationFilter]);
 
-    if (!context) return;
+  // The preview container only exists in camera mode
+  useEffect(() => {
+    if (scanMode !== 'camera') {
+      stopCamera();
+    }
+  }, [scanMode, stopCamera]);
+
+  // A new device, resolution or region only takes effect by restarting the stream
+  const changeCameraPreferences = (preferences: CameraPreferences): void => {
+    setCameraPreferences(preferences);
+    saveCameraPreferences(preferences);
+    if (camera.isOpen) {
+      void startCamera(preferences);
+    }
+  };
 
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
+  // Answer the "same item again?" prompt
+  const resolveRepeatPrompt = (accept: boolean): void => {
+    const pending = repeatPrompt;
+    setRepeatPrompt(null);
+    if (accept && pending?.barcode) {
+      submitDetection(pending, 'camera');
+    }
+  };
 
-    // Draw current video frame to canvas
-    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  // Capture image from camera and scan
+  const captureAndScan = async (): Promise<void> => {
+    const canvas = camera.captureFrame();
+    if (!canvas) {
+      setMessage('The camera has no picture yet');
+      return;
+    }
 
     setIsLoading(true);
     setMessage('Scanning captured image...');
@@ -139,7 +530,7 @@ const BarcodeScannerWithAPI: React.FC = () => {
       const result = await BarcodeDetectionService.detectFromCanvas(canvas);
       
       if (result.success && result.barcode) {
-        await processBarcode(result.barcode);
+        await submitDetection(result, 'camera');
       } else {
         setMessage(result.error || 'No barcode found in image');
       }
@@ -155,11 +546,36 @@ const BarcodeScannerWithAPI: React.FC = () => {
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>): void => {
     const file = event.target.files?.[0];
     if (file) {
+      decodeAbortRef.current?.abort();
       setSelectedFile(file);
+      setDecodeMetrics(null);
+      setDetectedCodes([]);
+      setSelectedCodes(new Set());
       setMessage(`Selected: ${file.name}`);
     }
   };
 
+  const resetUpload = (): void => {
+    setSelectedFile(null);
+    setDetectedCodes([]);
+    setSelectedCodes(new Set());
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const toggleDetectedCode = (index: number): void => {
+    setSelectedCodes(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
   // Upload and scan image file
   const uploadAndScan = async (): Promise<void> => {
     if (!selectedFile) {
@@ -167,38 +583,60 @@ const BarcodeScannerWithAPI: React.FC = () => {
       return;
     }
 
+    decodeAbortRef.current?.abort();
+    const controller = new AbortController();
+    decodeAbortRef.current = controller;
+
     setIsLoading(true);
     setMessage('Scanning image...');
 
     try {
-      const result = await BarcodeDetectionService.detectFromImageFile(selectedFile);
-      
-      if (result.success && result.barcode) {
-        await processBarcode(result.barcode);
-        setSelectedFile(null);
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
+      const { results, metrics } = await BarcodeDetectionService.decodeImageFile(selectedFile, {
+        signal: controller.signal
+      });
+      setDecodeMetrics(metrics);
+
+      if (results.length === 1 && results[0].barcode) {
+        await submitDetection(results[0], 'upload');
+        resetUpload();
+      } else if (results.length > 1) {
+        // Several codes in one photo: let the user choose which ones to submit
+        setDetectedCodes(results);
+        setSelectedCodes(new Set(results.map((_, index) => index)));
+        setMessage(`Found ${results.length} barcodes. Select the ones to submit.`);
       } else {
-        setMessage(result.error || 'No barcode found in image');
+        setMessage('No barcode found in image');
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        // Superseded by another file or mode change; whoever cancelled owns the UI now
+        return;
+      }
       console.error('Error:', error);
-      setMessage('Error processing image');
+      setMessage(error instanceof ImageLoadError ? error.message : 'Error processing image');
     } finally {
-      setIsLoading(false);
+      if (decodeAbortRef.current === controller) {
+        decodeAbortRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
+  // Submit the codes picked from a multi-barcode image, in the order they were found
+  const submitSelectedCodes = async (): Promise<void> => {
+    const selected = detectedCodes.filter((result, index) => selectedCodes.has(index) && result.barcode);
+
+    for (const result of selected) {
+      await submitDetection(result, 'upload');
+    }
+    resetUpload();
+  };
+
   // Fetch all scanned items
   const fetchItems = async (): Promise<void> => {
     try {
-      const response = await fetch('http://localhost:5000/api/items');
-      const result: ApiResponse<ScannedItem[]> = await response.json();
-      
-      if (response.ok && result.data) {
-        setScannedItems(result.data);
-      }
+      const items = await apiClient.getItems();
+      setScannedItems(items);
     } catch (error) {
       console.error('Error fetching items:', error);
     }
@@ -207,24 +645,19 @@ const BarcodeScannerWithAPI: React.FC = () => {
   // Clear all items
   const clearItems = async (): Promise<void> => {
     try {
-      const response = await fetch('http://localhost:5000/api/items', {
-        method: 'DELETE',
-      });
-      
-      const result: ApiResponse = await response.json();
-      
-      if (response.ok) {
-        setScannedItems([]);
-        setMessage(result.message || 'All items cleared');
-      }
+      const serverMessage = await apiClient.clearItems();
+      setScannedItems([]);
+      setMessage(serverMessage || 'All items cleared');
     } catch (error) {
       console.error('Error clearing items:', error);
+      setMessage(describeApiError(error, 'Error clearing items'));
     }
   };
 
   return (
     <div className="scanner-container">
       <h1>Barcode Scanner with API Detection</h1>
+      <ScanFlash />
       
       {/* Scan Mode Selection */}
       <div className="scan-modes">
@@ -246,6 +679,12 @@ const BarcodeScannerWithAPI: React.FC = () => {
         >
           Upload Image
         </button>
+        <button 
+          className={scanMode === 'import' ? 'active' : ''} 
+          onClick={() => setScanMode('import')}
+        >
+          Import File
+        </button>
       </div>
 
       {/* Manual Input Mode */}
@@ -257,12 +696,18 @@ const BarcodeScannerWithAPI: React.FC = () => {
             id="barcode-input"
             type="text"
             value={barcodeInput}
-            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBarcodeInput(e.target.value)}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setBarcodeInput(e.target.value);
+              setInputError('');
+            }}
             onKeyPress={handleBarcodeScan}
             placeholder="Focus here and scan a barcode"
             disabled={isLoading}
             autoComplete="off"
+            aria-invalid={inputError ? true : undefined}
+            className={inputError ? 'invalid' : ''}
           />
+          {inputError && <div className="form-error">{inputError}</div>}
           
           <div className="instructions">
             <p>To simulate scanning:</p>
@@ -271,6 +716,9 @@ const BarcodeScannerWithAPI: React.FC = () => {
               <li>Press <kbd>Enter</kbd></li>
             </ul>
           </div>
+
+          <WedgeSettings config={wedgeConfig} onChange={changeWedgeConfig} />
+          <ScannerDevicesPanel />
         </div>
       )}
 
@@ -278,29 +726,75 @@ const BarcodeScannerWithAPI: React.FC = () => {
       {scanMode === 'camera' && (
         <div className="camera-box">
           <div className="camera-controls">
-            {!cameraActive ? (
-              <button onClick={startCamera} disabled={isLoading}>
-                Start Camera
+            {!camera.isOpen ? (
+              <button
+                onClick={() => startCamera()}
+                disabled={isLoading || camera.status === 'requesting-permission'}
+              >
+                {camera.status === 'denied' || camera.status === 'error' ? 'Retry Camera' : 'Start Camera'}
               </button>
             ) : (
               <div>
-                <button onClick={captureAndScan} disabled={isLoading}>
+                <button onClick={captureAndScan} disabled={isLoading || camera.status === 'paused'}>
                   Capture & Scan
                 </button>
+                {camera.status === 'paused' ? (
+                  <button onClick={camera.resume}>Resume</button>
+                ) : (
+                  <button onClick={camera.pause}>Pause</button>
+                )}
                 <button onClick={stopCamera} className="stop-btn">
                   Stop Camera
                 </button>
               </div>
             )}
           </div>
+
+          {camera.status === 'requesting-permission' && (
+            <div className="camera-status">Waiting for camera permission...</div>
+          )}
+          {camera.status === 'active' && (
+            <div className="camera-status">Point at a barcode to scan.</div>
+          )}
+          {camera.status === 'paused' && <div className="camera-status">Scanning paused</div>}
+          {camera.error && <div className="form-error">{camera.error}</div>}
           
-          {cameraActive && (
-            <div className="camera-preview">
-              <div id="camera-container" style={{ width: '100%', maxWidth: '640px', height: '480px' }} />
-              <video ref={videoRef} autoPlay playsInline muted style={{ display: 'none' }} />
-              <canvas ref={canvasRef} style={{ display: 'none' }} />
+          <CameraSettingsPanel
+            preferences={cameraPreferences}
+            onPreferencesChange={changeCameraPreferences}
+            track={camera.track}
+            showScanRegion
+          />
+
+          <ScanConfirmationSettings policy={confirmationPolicy} onChange={setConfirmationPolicy} />
+
+          {repeatPrompt && (
+            <div className="repeat-prompt">
+              <p>Same item again? <strong>{repeatPrompt.barcode}</strong></p>
+              <button onClick={() => resolveRepeatPrompt(true)}>Yes, count it</button>
+              <button onClick={() => resolveRepeatPrompt(false)} className="stop-btn">No</button>
             </div>
           )}
+
+          {camera.isOpen && lastConfidence && (
+            <div className={`scan-confidence ${lastConfidence.level}`}>
+              Last scan confidence: {lastConfidence.level} ({lastConfidence.reads} read
+              {lastConfidence.reads === 1 ? '' : 's'}, mean error {lastConfidence.meanError.toFixed(3)},
+              max {lastConfidence.maxError.toFixed(3)})
+            </div>
+          )}
+
+          {/* Always rendered in camera mode: Quagga needs the container before the camera opens */}
+          <div className="camera-preview" hidden={!camera.isOpen}>
+            <div className="camera-viewport">
+              <div id="camera-container" />
+              <CameraOverlay
+                containerId="camera-container"
+                active={camera.status === 'active'}
+                area={scanArea(cameraPreferences)}
+              />
+            </div>
+          </div>
         </div>
       )}
 
@@ -313,7 +807,6 @@ const BarcodeScannerWithAPI: React.FC = () => {
               type="file"
               accept="image/*"
               onChange={handleFileSelect}
-              disabled={isLoading}
             />
             <button onClick={uploadAndScan} disabled={!selectedFile || isLoading}>
               Upload & Scan
@@ -325,42 +818,139 @@ const BarcodeScannerWithAPI: React.FC = () => {
               <p>Selected: {selectedFile.name}</p>
             </div>
           )}
+
+          {decodeMetrics && (
+            <div className="decode-metrics">
+              Decoded in {Math.round(decodeMetrics.totalMs)} ms
+              (load {Math.round(decodeMetrics.loadMs)} ms
+              {decodeMetrics.engines.filter(timing => !timing.skipped).map(timing => (
+                <span key={timing.engine}>
+                  , {timing.engine} {Math.round(timing.durationMs)} ms{timing.inWorker ? ' in worker' : ''}
+                  {timing.error ? ' (failed)' : ''}
+                </span>
+              ))})
+              {decodeMetrics.preprocessing && (
+                <div>
+                  {decodeMetrics.preprocessing.transform
+                    ? `Found after preprocessing (${decodeMetrics.preprocessing.transform})`
+                    : `Preprocessing found nothing`}
+                  {' '}- {decodeMetrics.preprocessing.attempts} variant(s) in {Math.round(decodeMetrics.preprocessing.elapsedMs)} ms
+                  {decodeMetrics.preprocessing.budgetExceeded ? ', time budget exceeded' : ''}
+                </div>
+              )}
+            </div>
+          )}
+
+          {selectedFile && detectedCodes.length > 0 && (
+            <>
+              <ImageDetectionPicker
+                file={selectedFile}
+                results={detectedCodes}
+                selected={selectedCodes}
+                onToggle={toggleDetectedCode}
+              />
+              <div className="file-input">
+                <button onClick={submitSelectedCodes} disabled={selectedCodes.size === 0 || isLoading}>
+                  Submit Selected ({selectedCodes.size})
+                </button>
+              </div>
+            </>
+          )}
         </div>
       )}
 
+      {/* Import Mode */}
+      {scanMode === 'import' && (
+        <ImportPanel
+          onScanned={(item) => {
+            setScannedItems(prev => [item, ...prev]);
+            catalogService.rememberScan(item);
+          }}
+        />
+      )}
+
       {message && <div className="message">{message}</div>}
 
+      <FeedbackSettings />
+
+      {qrPayload && (
+        <QrPayloadView
+          key={qrPayload.id}
+          payload={qrPayload.payload}
+          allowlist={linkAllowlist}
+          onAllowlistChange={changeLinkAllowlist}
+          onDismiss={() => setQrPayload(null)}
+        />
+      )}
+
+      {productPreview && (
+        <div className="product-preview">
+          <strong>{productPreview.product.name}</strong>
+          <span>${productPreview.product.price.toFixed(2)}</span>
+          {productPreview.product.category && <span>{productPreview.product.category}</span>}
+          {productPreview.stale && <span className="stale">cached, may be outdated</span>}
+        </div>
+      )}
+
+      {unknownScan && (
+        <CreateProductForm
+          barcode={unknownScan.barcode}
+          onCreated={(product) => {
+            const { barcode, source, details } = unknownScan;
+            setUnknownScan(null);
+            setMessage(`Created ${product.name}`);
+            processBarcode(barcode, source, details);
+          }}
+          onCancel={() => setUnknownScan(null)}
+        />
+      )}
+
+      <OfflineQueueStatus />
+
+      <StockCountPanel />
+
+      <PickVerificationPanel />
+
+      <ScanSessionPanel />
+
       <div className="actions">
         <button onClick={fetchItems} disabled={isLoading}>
           Refresh List
         </button>
-        <button onClick={clearItems} disabled={isLoading} className="clear-btn">
+        <button onClick={() => setConfirmingClear(true)} disabled={isLoading} className="clear-btn">
           Clear All
         </button>
       </div>
 
-      <div className="results">
-        <h2>Scanned Items ({scannedItems.length})</h2>
-        
-        {scannedItems.length === 0 ? (
-          <p>No items scanned yet.</p>
-        ) : (
-          <div className="items-list">
-            {scannedItems.map(item => (
-              <div key={item.id} className="item-card">
-                <div className="item-info">
-                  <h3>{item.name}</h3>
-                  <p>Barcode: {item.barcode}</p>
-                  <p>Price: ${item.price.toFixed(2)}</p>
-                </div>
-                <div className="item-meta">
-                  <span>Scanned at: {item.timestamp}</span>
-                </div>
-              </div>
+      {confirmingClear && (
+        <ConfirmDialog
+          title="Clear all scanned items?"
+          message={`This permanently deletes all ${scannedItems.length} item(s) on the server and cannot be undone.`}
+          confirmLabel="Clear All"
+          onConfirm={() => {
+            setConfirmingClear(false);
+            clearItems();
+          }}
+          onCancel={() => setConfirmingClear(false)}
+        />
+      )}
+
+      <ExportPanel items={scannedItems} session={activeSession} />
+
+      <ScannedItemsList
+        items={scannedItems}
+        onItemsChange={setScannedItems}
+        renderDetails={(item) => item.gs1 && (
+          <dl className="gs1-fields">
+            {describeGs1Fields(item.gs1).map(element => (
+              <React.Fragment key={element.ai}>
+                <dt>({element.ai}) {element.label}</dt>
+                <dd>{element.display}</dd>
+              </React.Fragment>
             ))}
-          </div>
+          </dl>
         )}
-      </div>
+      />
     </div>
   );
 };
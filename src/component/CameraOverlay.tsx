@@ -0,0 +1,93 @@
+import React, { useEffect, useRef } from 'react';
+import "./../index.css"
+import { BarcodeDetectionService } from '../services/barcodeDetectionService';
+import type { ScanArea } from '../services/cameraControls';
+
+interface CameraOverlayProps {
+  /** Element Quagga renders its video into */
+  containerId: string;
+  active: boolean;
+  area: ScanArea;
+}
+
+/** How long a decoded barcode stays highlighted */
+const HIGHLIGHT_MS = 600;
+
+const strokePolygon = (context: CanvasRenderingContext2D, points: [number, number][], color: string, width: number): void => {
+  if (points.length === 0) {
+    return;
+  }
+  context.strokeStyle = color;
+  context.lineWidth = width;
+  context.beginPath();
+  context.moveTo(points[0][0], points[0][1]);
+  points.slice(1).forEach(([x, y]) => context.lineTo(x, y));
+  context.closePath();
+  context.stroke();
+};
+
+/**
+ * Aiming guidance over the live preview: the decoding window, the locator's
+ * candidate boxes every frame, and a highlight on the barcode that decoded
+ */
+const CameraOverlay: React.FC<CameraOverlayProps> = ({ containerId, active, area }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!active || !canvas) {
+      return;
+    }
+    let highlight: { box: [number, number][]; until: number } | null = null;
+
+    // Draw imperatively; frames arrive several times a second and shouldn't re-render React
+    const unsubscribe = BarcodeDetectionService.onFrameProcessed(frame => {
+      const video = document.querySelector<HTMLVideoElement>(`#${containerId} video`);
+      const context = canvas?.getContext('2d');
+      if (!context || !video?.videoWidth) {
+        return;
+      }
+      if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+      }
+
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      frame.candidates
+        .filter(candidate => candidate !== frame.box)
+        .forEach(candidate => strokePolygon(context, candidate, 'rgba(255, 193, 7, 0.7)', 2));
+      if (frame.box) {
+        strokePolygon(context, frame.box, 'rgba(0, 123, 255, 0.9)', 3);
+      }
+
+      const now = performance.now();
+      if (frame.barcode && frame.box) {
+        highlight = { box: frame.box, until: now + HIGHLIGHT_MS };
+      }
+      if (highlight && highlight.until > now) {
+        strokePolygon(context, highlight.box, '#28a745', 5);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    };
+  }, [active, containerId]);
+
+  const fullFrame = area.top === 0 && area.right === 0 && area.bottom === 0 && area.left === 0;
+
+  return (
+    <div className="camera-overlay" aria-hidden="true">
+      <canvas ref={canvasRef} className="detection-boxes" />
+      {!fullFrame && (
+        <div
+          className="scan-region"
+          style={{ top: `${area.top}%`, right: `${area.right}%`, bottom: `${area.bottom}%`, left: `${area.left}%` }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CameraOverlay;
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import "./../index.css"
+import {
+  applyTrackSetting,
+  listVideoInputs,
+  readTrackControls,
+  RESOLUTION_PRESETS,
+  SCAN_REGION_LABELS,
+  type CameraPreferences,
+  type ResolutionPreset,
+  type ScanRegionPreset,
+  type TrackControls,
+  type TrackSetting
+} from '../services/cameraControls';
+
+interface CameraSettingsPanelProps {
+  preferences: CameraPreferences;
+  /** Device and resolution changes need the camera restarted by the parent */
+  onPreferencesChange: (preferences: CameraPreferences) => void;
+  /** The running camera's track; torch, zoom and focus apply to it directly */
+  track: MediaStreamTrack | null;
+  /** Only scanners that decode through Quagga can restrict the scan region */
+  showScanRegion?: boolean;
+}
+
+const CameraSettingsPanel: React.FC<CameraSettingsPanelProps> = ({
+  preferences,
+  onPreferencesChange,
+  track,
+  showScanRegion = false
+}) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [controls, setControls] = useState<TrackControls>({});
+  const [error, setError] = useState<string>('');
+
+  // Re-list when the track changes: labels only appear once access is granted
+  useEffect(() => {
+    const refresh = (): void => {
+      listVideoInputs().then(setDevices).catch(listError => {
+        console.error('Error listing cameras:', listError);
+      });
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [track]);
+
+  useEffect(() => {
+    setControls(track ? readTrackControls(track) : {});
+    setError('');
+  }, [track]);
+
+  const applySetting = async (setting: TrackSetting): Promise<void> => {
+    if (!track) {
+      return;
+    }
+    try {
+      await applyTrackSetting(track, setting);
+      setError('');
+    } catch (applyError) {
+      console.error('Error applying camera setting:', applyError);
+      setError('This camera refused the setting');
+    }
+    setControls(readTrackControls(track));
+  };
+
+  return (
+    <div className="camera-settings">
+      <label>
+        Camera
+        <select
+          value={preferences.deviceId ?? ''}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+            onPreferencesChange({ ...preferences, deviceId: e.target.value || undefined })}
+        >
+          <option value="">Default (back camera)</option>
+          {devices.map((device, index) => (
+            <option key={device.deviceId || index} value={device.deviceId}>
+              {device.label || `Camera ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label>
+        Resolution
+        <select
+          value={preferences.resolution}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+            onPreferencesChange({ ...preferences, resolution: e.target.value as ResolutionPreset })}
+        >
+          {Object.entries(RESOLUTION_PRESETS).map(([preset, { label }]) => (
+            <option key={preset} value={preset}>{label}</option>
+          ))}
+        </select>
+      </label>
+
+      {showScanRegion && (
+        <label>
+          Scan region
+          <select
+            value={preferences.region}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+              onPreferencesChange({ ...preferences, region: e.target.value as ScanRegionPreset })}
+          >
+            {Object.entries(SCAN_REGION_LABELS).map(([preset, label]) => (
+              <option key={preset} value={preset}>{label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {controls.torch !== undefined && (
+        <button
+          className={controls.torch ? 'active' : ''}
+          onClick={() => void applySetting({ torch: !controls.torch })}
+          aria-pressed={controls.torch}
+        >
+          Torch {controls.torch ? 'On' : 'Off'}
+        </button>
+      )}
+
+      {controls.zoom && (
+        <label>
+          Zoom {controls.zoom.value.toFixed(1)}×
+          <input
+            type="range"
+            min={controls.zoom.min}
+            max={controls.zoom.max}
+            step={controls.zoom.step ?? 0.1}
+            value={controls.zoom.value}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => void applySetting({ zoom: Number(e.target.value) })}
+          />
+        </label>
+      )}
+
+      {controls.focusMode && (
+        <label>
+          Focus
+          <select
+            value={controls.focusMode.value ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => void applySetting({ focusMode: e.target.value })}
+          >
+            {controls.focusMode.modes.map(mode => (
+              <option key={mode} value={mode}>{mode}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {track && controls.torch === undefined && !controls.zoom && !controls.focusMode && (
+        <span className="camera-settings-note">This camera has no torch, zoom or focus controls</span>
+      )}
+      {error && <div className="form-error">{error}</div>}
+    </div>
+  );
+};
+
+export default CameraSettingsPanel;
@@ -0,0 +1,53 @@
+import React, { useEffect, useRef } from 'react';
+import "./../index.css"
+
+interface ConfirmDialogProps {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal yes/no prompt for destructive actions. Escape cancels; the cancel
+ * button has focus so a stray Enter doesn't confirm.
+ */
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, confirmLabel, onConfirm, onCancel }) => {
+  const cancelRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    cancelRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div className="dialog-backdrop" onClick={onCancel}>
+      <div
+        className="confirm-dialog"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="confirm-dialog-title"
+        onClick={(e: React.MouseEvent) => e.stopPropagation()}
+      >
+        <h3 id="confirm-dialog-title">{title}</h3>
+        <p>{message}</p>
+        <div className="dialog-actions">
+          <button ref={cancelRef} onClick={onCancel}>Cancel</button>
+          <button onClick={onConfirm} className="clear-btn">{confirmLabel}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmDialog;
@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import "./../index.css"
+import type { Product } from '../types';
+import { describeApiError } from '../services/apiClient';
+import { catalogService } from '../services/catalogService';
+
+interface CreateProductFormProps {
+  barcode: string;
+  onCreated: (product: Product) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shown when the server doesn't know a scanned barcode, so the operator can
+ * add it to the catalog on the spot
+ */
+const CreateProductForm: React.FC<CreateProductFormProps> = ({ barcode, onCreated, onCancel }) => {
+  const [name, setName] = useState<string>('');
+  const [price, setPrice] = useState<string>('');
+  const [category, setCategory] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const nameRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    nameRef.current?.focus();
+  }, [barcode]);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    const parsedPrice = Number(price);
+
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (!price.trim() || !Number.isFinite(parsedPrice) || parsedPrice < 0) {
+      setError('Price must be a non-negative number');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const product = await catalogService.createProduct({
+        barcode,
+        name: name.trim(),
+        price: parsedPrice,
+        category: category.trim() || undefined,
+      });
+      onCreated(product);
+    } catch (createError) {
+      console.error('Error creating product:', createError);
+      setError(describeApiError(createError, 'Could not create product'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form className="create-product" onSubmit={handleSubmit}>
+      <h3>Unknown barcode {barcode}</h3>
+      <p>Add it to the catalog to record this scan.</p>
+      <label>
+        Name
+        <input ref={nameRef} type="text" value={name} onChange={e => setName(e.target.value)} disabled={isSaving} />
+      </label>
+      <label>
+        Price
+        <input
+          type="number"
+          min={0}
+          step={0.01}
+          value={price}
+          onChange={e => setPrice(e.target.value)}
+          disabled={isSaving}
+        />
+      </label>
+      <label>
+        Category
+        <input type="text" value={category} onChange={e => setCategory(e.target.value)} disabled={isSaving} />
+      </label>
+      {error && <div className="form-error">{error}</div>}
+      <div className="create-product-actions">
+        <button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Create Product'}
+        </button>
+        <button type="button" onClick={onCancel} disabled={isSaving} className="clear-btn">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CreateProductForm;
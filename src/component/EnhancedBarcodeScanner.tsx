@@ -1,21 +1,34 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import "./../index.css"
-import type { ApiResponse, ScannedItem } from '../types';
+import type { ScannedItem } from '../types';
+import { apiClient, describeApiError } from '../services/apiClient';
+import {
+  loadCameraPreferences,
+  saveCameraPreferences,
+  type CameraPreferences
+} from '../services/cameraControls';
+import { useBarcodeCamera } from '../hooks/useBarcodeCamera';
+import ExportPanel from './ExportPanel';
+import ScannedItemsList from './ScannedItemsList';
+import ConfirmDialog from './ConfirmDialog';
+import CameraSettingsPanel from './CameraSettingsPanel';
 
 const EnhancedBarcodeScanner: React.FC = () => {
   const [barcodeInput, setBarcodeInput] = useState<string>('');
   const [scannedItems, setScannedItems] = useState<ScannedItem[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [message, setMessage] = useState<string>('');
-  const [cameraActive, setCameraActive] = useState<boolean>(false);
+  const [confirmingClear, setConfirmingClear] = useState<boolean>(false);
+  const [cameraPreferences, setCameraPreferences] = useState<CameraPreferences>(
+    () => loadCameraPreferences({ resolution: 'hd', region: 'full' })
+  );
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [scanMode, setScanMode] = useState<'manual' | 'camera' | 'upload'>('manual');
   
   const inputRef = useRef<HTMLInputElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const camera = useBarcodeCamera();
+  const { stop: stopCamera } = camera;
 
   useEffect(() => {
     if (inputRef.current && scanMode === 'manual') {
@@ -27,14 +40,12 @@ const EnhancedBarcodeScanner: React.FC = () => {
     fetchItems();
   }, []);
 
-  // Cleanup camera stream on unmount
+  // The preview only exists in camera mode
   useEffect(() => {
-    return () => {
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
-    };
-  }, []);
+    if (scanMode !== 'camera') {
+      stopCamera();
+    }
+  }, [scanMode, stopCamera]);
 
   // Handle barcode scan
   const handleBarcodeScan = useCallback(async (event: React.KeyboardEvent<HTMLInputElement>) => {
@@ -54,81 +65,34 @@ const EnhancedBarcodeScanner: React.FC = () => {
     setMessage(`Processing barcode: ${barcode}`);
     
     try {
-      const response = await fetch('http://localhost:5000/api/scan', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ barcode }),
-      });
-
-      const result: ApiResponse<ScannedItem> = await response.json();
-
-      if (response.ok && result.data) {
-        setScannedItems(prev => [result.data!, ...prev]);
-        setBarcodeInput('');
-        setMessage(`Scanned: ${result.data.name}`);
-      } else {
-        setMessage(result.error || 'Error processing barcode');
-      }
+      const item = await apiClient.scan({ barcode });
+      setScannedItems(prev => [item, ...prev]);
+      setBarcodeInput('');
+      setMessage(`Scanned: ${item.name}`);
     } catch (error) {
       console.error('Error:', error);
-      setMessage('Network error - is the server running?');
+      setMessage(describeApiError(error, 'Error processing barcode'));
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Start camera
-  const startCamera = async (): Promise<void> => {
-    try {
-      setMessage('Starting camera...');
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { 
-          facingMode: 'environment', // Use back camera if available
-          width: { ideal: 1280 },
-          height: { ideal: 720 }
-        } 
-      });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        streamRef.current = stream;
-        setCameraActive(true);
-        setMessage('Camera started. Point at a barcode to scan.');
-      }
-    } catch (error) {
-      console.error('Error accessing camera:', error);
-      setMessage('Error accessing camera. Please check permissions.');
-    }
-  };
-
-  // Stop camera
-  const stopCamera = (): void => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
+  // A new device or resolution only takes effect by restarting the stream
+  const changeCameraPreferences = (preferences: CameraPreferences): void => {
+    setCameraPreferences(preferences);
+    saveCameraPreferences(preferences);
+    if (camera.isOpen) {
+      void camera.start(preferences);
     }
-    setCameraActive(false);
-    setMessage('');
   };
 
   // Capture image from camera and scan
   const captureAndScan = async (): Promise<void> => {
-    if (!videoRef.current || !canvasRef.current) return;
-
-    const canvas = canvasRef.current;
-    const video = videoRef.current;
-    const context = canvas.getContext('2d');
-
-    if (!context) return;
-
-    // Set canvas size to match video
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-
-    // Draw current video frame to canvas
-    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const canvas = camera.captureFrame();
+    if (!canvas) {
+      setMessage('The camera has no picture yet');
+      return;
+    }
 
     // Convert to base64
     const imageData = canvas.toDataURL('image/jpeg', 0.8);
@@ -137,25 +101,12 @@ const EnhancedBarcodeScanner: React.FC = () => {
     setMessage('Scanning captured image...');
 
     try {
-      const response = await fetch('http://localhost:5000/api/scan-camera', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ imageData }),
-      });
-
-      const result: ApiResponse<ScannedItem> = await response.json();
-
-      if (response.ok && result.data) {
-        setScannedItems(prev => [result.data!, ...prev]);
-        setMessage(`Scanned: ${result.data.name}`);
-      } else {
-        setMessage(result.error || 'No barcode found in image');
-      }
+      const item = await apiClient.scanCamera({ imageData });
+      setScannedItems(prev => [item, ...prev]);
+      setMessage(`Scanned: ${item.name}`);
     } catch (error) {
       console.error('Error:', error);
-      setMessage('Error processing camera image');
+      setMessage(describeApiError(error, 'Error processing camera image'));
     } finally {
       setIsLoading(false);
     }
@@ -181,29 +132,16 @@ const EnhancedBarcodeScanner: React.FC = () => {
     setMessage('Uploading and scanning image...');
 
     try {
-      const formData = new FormData();
-      formData.append('image', selectedFile);
-
-      const response = await fetch('http://localhost:5000/api/scan-image', {
-        method: 'POST',
-        body: formData,
-      });
-
-      const result: ApiResponse<ScannedItem> = await response.json();
-
-      if (response.ok && result.data) {
-        setScannedItems(prev => [result.data!, ...prev]);
-        setMessage(`Scanned: ${result.data.name}`);
-        setSelectedFile(null);
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
-      } else {
-        setMessage(result.error || 'No barcode found in image');
+      const item = await apiClient.scanImage(selectedFile);
+      setScannedItems(prev => [item, ...prev]);
+      setMessage(`Scanned: ${item.name}`);
+      setSelectedFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
       }
     } catch (error) {
       console.error('Error:', error);
-      setMessage('Error uploading image');
+      setMessage(describeApiError(error, 'Error uploading image'));
     } finally {
       setIsLoading(false);
     }
@@ -212,12 +150,8 @@ const EnhancedBarcodeScanner: React.FC = () => {
   // Fetch all scanned items
   const fetchItems = async (): Promise<void> => {
     try {
-      const response = await fetch('http://localhost:5000/api/items');
-      const result: ApiResponse<ScannedItem[]> = await response.json();
-      
-      if (response.ok && result.data) {
-        setScannedItems(result.data);
-      }
+      const items = await apiClient.getItems();
+      setScannedItems(items);
     } catch (error) {
       console.error('Error fetching items:', error);
     }
@@ -226,18 +160,12 @@ const EnhancedBarcodeScanner: React.FC = () => {
   // Clear all items
   const clearItems = async (): Promise<void> => {
     try {
-      const response = await fetch('http://localhost:5000/api/items', {
-        method: 'DELETE',
-      });
-      
-      const result: ApiResponse = await response.json();
-      
-      if (response.ok) {
-        setScannedItems([]);
-        setMessage(result.message || 'All items cleared');
-      }
+      const serverMessage = await apiClient.clearItems();
+      setScannedItems([]);
+      setMessage(serverMessage || 'All items cleared');
     } catch (error) {
       console.error('Error clearing items:', error);
+      setMessage(describeApiError(error, 'Error clearing items'));
     }
   };
 
@@ -297,28 +225,46 @@ const EnhancedBarcodeScanner: React.FC = () => {
       {scanMode === 'camera' && (
         <div className="camera-box">
           <div className="camera-controls">
-            {!cameraActive ? (
-              <button onClick={startCamera} disabled={isLoading}>
-                Start Camera
+            {!camera.isOpen ? (
+              <button
+                onClick={() => camera.start(cameraPreferences)}
+                disabled={isLoading || camera.status === 'requesting-permission'}
+              >
+                {camera.status === 'denied' || camera.status === 'error' ? 'Retry Camera' : 'Start Camera'}
               </button>
             ) : (
               <div>
-                <button onClick={captureAndScan} disabled={isLoading}>
+                <button onClick={captureAndScan} disabled={isLoading || camera.status === 'paused'}>
                   Capture & Scan
                 </button>
+                {camera.status === 'paused' ? (
+                  <button onClick={camera.resume}>Resume</button>
+                ) : (
+                  <button onClick={camera.pause}>Pause</button>
+                )}
                 <button onClick={stopCamera} className="stop-btn">
                   Stop Camera
                 </button>
               </div>
             )}
           </div>
-          
-          {cameraActive && (
-            <div className="camera-preview">
-              <video ref={videoRef} autoPlay playsInline muted />
-              <canvas ref={canvasRef} style={{ display: 'none' }} />
-            </div>
+
+          {camera.status === 'requesting-permission' && (
+            <div className="camera-status">Waiting for camera permission...</div>
           )}
+          {camera.status === 'paused' && <div className="camera-status">Camera paused</div>}
+          {camera.error && <div className="form-error">{camera.error}</div>}
+
+          <CameraSettingsPanel
+            preferences={cameraPreferences}
+            onPreferencesChange={changeCameraPreferences}
+            track={camera.track}
+          />
+          
+          {/* Always rendered in camera mode so the stream has somewhere to play */}
+          <div className="camera-preview" hidden={!camera.isOpen}>
+            <video ref={camera.videoRef} autoPlay playsInline muted />
+          </div>
         </div>
       )}
 
@@ -352,33 +298,27 @@ const EnhancedBarcodeScanner: React.FC = () => {
         <button onClick={fetchItems} disabled={isLoading}>
           Refresh List
         </button>
-        <button onClick={clearItems} disabled={isLoading} className="clear-btn">
+        <button onClick={() => setConfirmingClear(true)} disabled={isLoading} className="clear-btn">
           Clear All
         </button>
       </div>
 
-      <div className="results">
-        <h2>Scanned Items ({scannedItems.length})</h2>
-        
-        {scannedItems.length === 0 ? (
-          <p>No items scanned yet.</p>
-        ) : (
-          <div className="items-list">
-            {scannedItems.map(item => (
-              <div key={item.id} className="item-card">
-                <div className="item-info">
-                  <h3>{item.name}</h3>
-                  <p>Barcode: {item.barcode}</p>
-                  <p>Price: ${item.price.toFixed(2)}</p>
-                </div>
-                <div className="item-meta">
-                  <span>Scanned at: {item.timestamp}</span>
-                </div>
-              </div>
-            ))}
-          </div>
-        )}
-      </div>
+      {confirmingClear && (
+        <ConfirmDialog
+          title="Clear all scanned items?"
+          message={`This permanently deletes all ${scannedItems.length} item(s) on the server and cannot be undone.`}
+          confirmLabel="Clear All"
+          onConfirm={() => {
+            setConfirmingClear(false);
+            clearItems();
+          }}
+          onCancel={() => setConfirmingClear(false)}
+        />
+      )}
+
+      <ExportPanel items={scannedItems} />
+
+      <ScannedItemsList items={scannedItems} onItemsChange={setScannedItems} />
     </div>
   );
 };
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import "./../index.css"
+import type { ScannedItem } from '../types';
+import type { ScanSession } from '../services/scanSessions';
+import {
+  buildExport,
+  downloadBlob,
+  EXPORT_COLUMNS,
+  itemsToRows,
+  sessionToRows,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportOptions
+} from '../services/exportService';
+import { parseDateInput } from '../services/itemQuery';
+
+interface ExportPanelProps {
+  items: ScannedItem[];
+  /** When given, the active session can be exported instead of the item list */
+  session?: ScanSession | null;
+}
+
+const DELIMITERS: Record<ExportOptions['delimiter'], string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+};
+
+const ALL_COLUMNS = Object.keys(EXPORT_COLUMNS) as ExportColumn[];
+
+/**
+ * Download the scanned items or the active session as CSV, XLSX or JSON
+ */
+const ExportPanel: React.FC<ExportPanelProps> = ({ items, session }) => {
+  const [source, setSource] = useState<'items' | 'session'>('items');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<ExportColumn[]>(['barcode', 'name', 'price', 'timestamp']);
+  const [delimiter, setDelimiter] = useState<ExportOptions['delimiter']>(',');
+  const [locale, setLocale] = useState<string>(navigator.language);
+  const [from, setFrom] = useState<string>('');
+  const [to, setTo] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+
+  const exportingSession = source === 'session' && !!session;
+
+  const toggleColumn = (column: ExportColumn): void => {
+    // Keep the file's column order fixed regardless of click order
+    setColumns(prev => ALL_COLUMNS.filter(candidate =>
+      candidate === column ? !prev.includes(column) : prev.includes(candidate)
+    ));
+  };
+
+  const handleExport = (): void => {
+    let resolvedLocale: string | undefined;
+    try {
+      resolvedLocale = locale.trim() ? Intl.getCanonicalLocales(locale.trim())[0] : undefined;
+    } catch {
+      setMessage(`"${locale}" is not a valid locale, e.g. en-US or de-DE`);
+      return;
+    }
+
+    const fromDate = parseDateInput(from);
+    const toDate = parseDateInput(to, true);
+    if (fromDate && toDate && fromDate > toDate) {
+      setMessage('The start date is after the end date');
+      return;
+    }
+
+    const rows = exportingSession ? sessionToRows(session) : itemsToRows(items);
+    const { blob, filename, count } = buildExport(rows, {
+      format,
+      columns,
+      delimiter,
+      locale: resolvedLocale,
+      from: fromDate,
+      to: toDate,
+    });
+    if (count === 0) {
+      setMessage('Nothing to export in that date range');
+      return;
+    }
+    downloadBlob(blob, filename);
+    setMessage(`Exported ${count} row(s) to ${filename}`);
+  };
+
+  return (
+    <div className="export-panel">
+      <h3>Export</h3>
+      <div className="export-options">
+        {session && (
+          <label>
+            Source
+            <select value={source} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSource(e.target.value as 'items' | 'session')}>
+              <option value="items">Scanned items</option>
+              <option value="session">Session: {session.name}</option>
+            </select>
+          </label>
+        )}
+        <label>
+          Format
+          <select value={format} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFormat(e.target.value as ExportFormat)}>
+            <option value="csv">CSV</option>
+            <option value="xlsx">Excel (XLSX)</option>
+            <option value="json">JSON</option>
+          </select>
+        </label>
+        {format === 'csv' && (
+          <>
+            <label>
+              Delimiter
+              <select
+                value={delimiter}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDelimiter(e.target.value as ExportOptions['delimiter'])}
+              >
+                {Object.entries(DELIMITERS).map(([value, label]) => (
+                  <option key={label} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Decimal locale
+              <input
+                value={locale}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLocale(e.target.value)}
+                placeholder="en-US"
+              />
+            </label>
+          </>
+        )}
+        <label>
+          From
+          <input type="date" value={from} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFrom(e.target.value)} />
+        </label>
+        <label>
+          To
+          <input type="date" value={to} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTo(e.target.value)} />
+        </label>
+      </div>
+
+      <fieldset className="export-columns">
+        <legend>Columns</legend>
+        {ALL_COLUMNS.map(column => (
+          <label key={column}>
+            <input type="checkbox" checked={columns.includes(column)} onChange={() => toggleColumn(column)} />
+            {EXPORT_COLUMNS[column]}
+          </label>
+        ))}
+      </fieldset>
+
+      <button
+        onClick={handleExport}
+        disabled={columns.length === 0 || (exportingSession ? session.lines.length === 0 : items.length === 0)}
+      >
+        Export
+      </button>
+      {message && <div className="export-message">{message}</div>}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import "./../index.css"
+import {
+  FEEDBACK_PROFILES,
+  scanFeedback,
+  type FeedbackProfileId,
+  type FeedbackSettings as Settings,
+  type ScanOutcome
+} from '../services/scanFeedback';
+
+const OUTCOME_LABELS: Record<ScanOutcome, string> = {
+  success: 'Success',
+  duplicate: 'Duplicate',
+  unknown: 'Unknown item',
+  invalid: 'Invalid',
+  queued: 'Queued',
+  error: 'Error',
+};
+
+const FeedbackSettings: React.FC = () => {
+  const [settings, setSettings] = useState<Settings>(() => scanFeedback.getSettings());
+
+  useEffect(() => scanFeedback.subscribe(setSettings), []);
+
+  return (
+    <details className="feedback-settings">
+      <summary>
+        Scan feedback: {FEEDBACK_PROFILES[settings.profile].label}{settings.muted ? ', muted' : ''}
+      </summary>
+      <div className="feedback-settings-fields">
+        <label>
+          Profile
+          <select
+            value={settings.profile}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+              scanFeedback.updateSettings({ profile: e.target.value as FeedbackProfileId })}
+          >
+            {Object.entries(FEEDBACK_PROFILES).map(([id, { label }]) => (
+              <option key={id} value={id}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Volume
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.volume}
+            disabled={settings.muted}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              scanFeedback.updateSettings({ volume: Number(e.target.value) })}
+          />
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.muted}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => scanFeedback.updateSettings({ muted: e.target.checked })}
+          />
+          Mute
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.vibration}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              scanFeedback.updateSettings({ vibration: e.target.checked })}
+          />
+          Vibrate
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.flash}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => scanFeedback.updateSettings({ flash: e.target.checked })}
+          />
+          Flash screen
+        </label>
+      </div>
+      <div className="feedback-preview">
+        Try:
+        {Object.entries(OUTCOME_LABELS).map(([outcome, label]) => (
+          <button key={outcome} onClick={() => scanFeedback.signal(outcome as ScanOutcome)}>{label}</button>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default FeedbackSettings;
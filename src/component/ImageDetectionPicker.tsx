@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import "./../index.css"
+import type { BarcodeDetectionResult } from '../services/barcodeDetectionService';
+
+interface ImageDetectionPickerProps {
+  file: File;
+  results: BarcodeDetectionResult[];
+  selected: Set<number>;
+  onToggle: (index: number) => void;
+}
+
+/**
+ * Shows an uploaded image with every detected barcode outlined; clicking a
+ * region or its list entry toggles whether it will be submitted
+ */
+const ImageDetectionPicker: React.FC<ImageDetectionPickerProps> = ({ file, results, selected, onToggle }) => {
+  const [imageUrl, setImageUrl] = useState<string>('');
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    setImageSize(null);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleLoad = (event: React.SyntheticEvent<HTMLImageElement>): void => {
+    const img = event.currentTarget;
+    setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+  };
+
+  return (
+    <div className="detection-picker">
+      <div className="detection-image">
+        {imageUrl && <img src={imageUrl} alt={file.name} onLoad={handleLoad} />}
+        {imageSize && (
+          <svg viewBox={`0 0 ${imageSize.width} ${imageSize.height}`} preserveAspectRatio="none">
+            {results.map((result, index) => result.polygon && (
+              <polygon
+                key={index}
+                className={selected.has(index) ? 'selected' : ''}
+                points={result.polygon.map(point => `${point.x},${point.y}`).join(' ')}
+                onClick={() => onToggle(index)}
+              >
+                <title>{result.barcode}</title>
+              </polygon>
+            ))}
+          </svg>
+        )}
+      </div>
+
+      <ul className="detection-list">
+        {results.map((result, index) => (
+          <li key={index}>
+            <label>
+              <input
+                type="checkbox"
+                checked={selected.has(index)}
+                onChange={() => onToggle(index)}
+              />
+              <span className="detection-code">{result.barcode}</span>
+              <span className="detection-format">{result.format}</span>
+              {result.transform && <span className="detection-format">via {result.transform}</span>}
+              {result.confidence && (
+                <span className={`detection-confidence ${result.confidence.level}`}>
+                  {result.confidence.level}
+                </span>
+              )}
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ImageDetectionPicker;
@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import "./../index.css"
+import type { ScannedItem } from '../types';
+import {
+  buildImportRows,
+  guessMapping,
+  importReportCsv,
+  parseImportFile,
+  runImport,
+  type ImportDelimiter,
+  type ImportMapping,
+  type ImportProgress,
+  type ImportResult
+} from '../services/barcodeImport';
+import { downloadBlob } from '../services/exportService';
+
+interface ImportPanelProps {
+  /** Called for each row the server accepted */
+  onScanned: (item: ScannedItem) => void;
+}
+
+const DELIMITERS: Record<ImportDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  whitespace: 'Spaces / one per line',
+};
+
+const PREVIEW_ROWS = 8;
+
+const STATUS_LABELS: Record<ImportResult['status'], string> = {
+  success: 'Scanned',
+  failed: 'Failed',
+  invalid: 'Invalid',
+  cancelled: 'Not sent',
+};
+
+/**
+ * Batch lookup from a CSV or text file: map the columns, check the rows,
+ * then send them through /api/scan with progress and a downloadable report
+ */
+const ImportPanel: React.FC<ImportPanelProps> = ({ onScanned }) => {
+  const [fileName, setFileName] = useState<string>('');
+  const [text, setText] = useState<string>('');
+  const [delimiter, setDelimiter] = useState<ImportDelimiter>(',');
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+  const [error, setError] = useState<string>('');
+  const [importing, setImporting] = useState<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop sending if the panel goes away mid-import
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const rows = useMemo(() => (text ? parseImportFile(text, delimiter).rows : []), [text, delimiter]);
+  const importRows = useMemo(() => (mapping ? buildImportRows(rows, mapping) : []), [rows, mapping]);
+  const invalidCount = importRows.filter(row => row.error).length;
+  const width = Math.max(0, ...rows.slice(0, PREVIEW_ROWS + 1).map(row => row.length));
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setError('');
+    setResults(null);
+    setProgress(null);
+    try {
+      const content = await file.text();
+      const parsed = parseImportFile(content);
+      if (parsed.rows.length === 0) {
+        setError(`${file.name} has no rows`);
+        setText('');
+        setMapping(null);
+        return;
+      }
+      setFileName(file.name);
+      setText(content);
+      setDelimiter(parsed.delimiter);
+      setMapping(guessMapping(parsed.rows));
+    } catch (readError) {
+      console.error('Error reading import file:', readError);
+      setError(`Could not read ${file.name}`);
+    }
+  };
+
+  const changeDelimiter = (next: ImportDelimiter): void => {
+    setDelimiter(next);
+    setMapping(guessMapping(parseImportFile(text, next).rows));
+  };
+
+  const startImport = async (): Promise<void> => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setImporting(true);
+    setResults(null);
+    setProgress({ done: 0, total: importRows.length - invalidCount, succeeded: 0, failed: 0 });
+    try {
+      const finished = await runImport(importRows, {
+        signal: controller.signal,
+        onProgress: (next, result) => {
+          setProgress(next);
+          if (result.item) {
+            onScanned(result.item);
+          }
+        },
+      });
+      setResults(finished);
+    } finally {
+      abortRef.current = null;
+      setImporting(false);
+    }
+  };
+
+  const downloadReport = (): void => {
+    if (!results) {
+      return;
+    }
+    const name = fileName.replace(/\.[^.]+$/, '') || 'import';
+    downloadBlob(new Blob([importReportCsv(results)], { type: 'text/csv;charset=utf-8' }), `${name}-report.csv`);
+  };
+
+  const columnSelect = (
+    value: number | null,
+    onChange: (column: number | null) => void,
+    allowNone: boolean
+  ): React.ReactElement => (
+    <select
+      value={value ?? ''}
+      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+      disabled={importing}
+    >
+      {allowNone && <option value="">None (1 each)</option>}
+      {Array.from({ length: width }, (_, column) => (
+        <option key={column} value={column}>
+          Column {column + 1}{mapping?.hasHeader && rows[0][column] ? ` (${rows[0][column]})` : ''}
+        </option>
+      ))}
+    </select>
+  );
+
+  const failures = results?.filter(result => result.status !== 'success') ?? [];
+
+  return (
+    <div className="import-box">
+      <div className="file-input">
+        <input type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" onChange={handleFile} disabled={importing} />
+      </div>
+      {error && <div className="form-error">{error}</div>}
+
+      {mapping && (
+        <>
+          <div className="import-mapping">
+            <label>
+              Delimiter
+              <select
+                value={delimiter}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => changeDelimiter(e.target.value as ImportDelimiter)}
+                disabled={importing}
+              >
+                {Object.entries(DELIMITERS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Barcode
+              {columnSelect(mapping.barcodeColumn, column => setMapping({ ...mapping, barcodeColumn: column ?? 0 }), false)}
+            </label>
+            <label>
+              Quantity
+              {columnSelect(mapping.quantityColumn, column => setMapping({ ...mapping, quantityColumn: column }), true)}
+            </label>
+            <label className="import-header-toggle">
+              <input
+                type="checkbox"
+                checked={mapping.hasHeader}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMapping({ ...mapping, hasHeader: e.target.checked })}
+                disabled={importing}
+              />
+              First row is a header
+            </label>
+          </div>
+
+          <table className="import-preview">
+            <tbody>
+              {rows.slice(0, PREVIEW_ROWS + 1).map((row, index) => {
+                const header = mapping.hasHeader && index === 0;
+                const importRow = importRows[index - (mapping.hasHeader ? 1 : 0)];
+                return (
+                  <tr key={index} className={header ? 'header' : importRow?.error ? 'invalid' : ''}>
+                    {Array.from({ length: width }, (_, column) => (
+                      <td
+                        key={column}
+                        className={column === mapping.barcodeColumn ? 'mapped-barcode' : column === mapping.quantityColumn ? 'mapped-quantity' : ''}
+                      >
+                        {row[column] ?? ''}
+                      </td>
+                    ))}
+                    <td className="row-error">{!header && importRow?.error}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {rows.length > PREVIEW_ROWS + 1 && <p className="import-summary">…and {rows.length - PREVIEW_ROWS - 1} more row(s)</p>}
+
+          <p className="import-summary">
+            {importRows.length - invalidCount} row(s) ready
+            {invalidCount > 0 && `, ${invalidCount} invalid row(s) will be skipped`}
+          </p>
+
+          <div className="file-input">
+            {importing ? (
+              <button onClick={() => abortRef.current?.abort()} className="stop-btn">Cancel Import</button>
+            ) : (
+              <button onClick={() => void startImport()} disabled={importRows.length === invalidCount}>
+                Import {importRows.length - invalidCount} Barcode(s)
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      {progress && (
+        <div className="import-progress">
+          <progress value={progress.done} max={Math.max(1, progress.total)} />
+          <span>
+            {progress.done} / {progress.total} sent · {progress.succeeded} scanned · {progress.failed} failed
+          </span>
+        </div>
+      )}
+
+      {results && (
+        <div className="import-report">
+          <p>
+            Import finished: {results.filter(result => result.status === 'success').length} scanned,{' '}
+            {failures.length} not scanned
+          </p>
+          <button onClick={downloadReport}>Download Report</button>
+          {failures.length > 0 && (
+            <table className="import-failures">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Barcode</th>
+                  <th>Status</th>
+                  <th>Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {failures.map(result => (
+                  <tr key={result.line}>
+                    <td>{result.line}</td>
+                    <td>{result.barcode}</td>
+                    <td>{STATUS_LABELS[result.status]}</td>
+                    <td>{result.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPanel;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import "./../index.css"
+import type { ScannedItem, UpdateItemRequest } from '../types';
+import { editableFields } from '../hooks/useItemMutations';
+
+interface ItemEditFormProps {
+  item: ScannedItem;
+  onSave: (changes: UpdateItemRequest) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Inline editor for a scanned item's name, price, quantity and note
+ */
+const ItemEditForm: React.FC<ItemEditFormProps> = ({ item, onSave, onCancel }) => {
+  const initial = editableFields(item);
+  const [name, setName] = useState<string>(initial.name);
+  const [price, setPrice] = useState<string>(initial.price.toFixed(2));
+  const [quantity, setQuantity] = useState<string>(String(initial.quantity));
+  const [note, setNote] = useState<string>(initial.note);
+  const [error, setError] = useState<string>('');
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    const parsedPrice = Number(price);
+    const parsedQuantity = Number(quantity);
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (!price.trim() || !Number.isFinite(parsedPrice) || parsedPrice < 0) {
+      setError('Price must be a number of 0 or more');
+      return;
+    }
+    if (!Number.isInteger(parsedQuantity) || parsedQuantity < 1) {
+      setError('Quantity must be a whole number of at least 1');
+      return;
+    }
+
+    // Only send what changed
+    const changes: UpdateItemRequest = {};
+    if (name.trim() !== initial.name) changes.name = name.trim();
+    if (Math.round(parsedPrice * 100) !== Math.round(initial.price * 100)) changes.price = Math.round(parsedPrice * 100) / 100;
+    if (parsedQuantity !== initial.quantity) changes.quantity = parsedQuantity;
+    if (note.trim() !== initial.note) changes.note = note.trim();
+
+    if (Object.keys(changes).length === 0) {
+      onCancel();
+      return;
+    }
+    onSave(changes);
+  };
+
+  return (
+    <form className="item-edit-form" onSubmit={handleSubmit}>
+      <label>
+        Name
+        <input value={name} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)} autoFocus />
+      </label>
+      <label>
+        Price
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={price}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPrice(e.target.value)}
+        />
+      </label>
+      <label>
+        Quantity
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={quantity}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuantity(e.target.value)}
+        />
+      </label>
+      <label>
+        Note
+        <input value={note} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNote(e.target.value)} />
+      </label>
+      {error && <div className="form-error">{error}</div>}
+      <div className="item-edit-actions">
+        <button type="submit">Save</button>
+        <button type="button" onClick={onCancel} className="clear-btn">Cancel</button>
+      </div>
+    </form>
+  );
+};
+
+export default ItemEditForm;
@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import "./../index.css"
+import type { ScannedItem } from '../types';
+import {
+  buildLabelDocument,
+  LABEL_LAYOUTS,
+  loadLabelOptions,
+  printDocument,
+  saveLabelOptions,
+  type LabelLayoutId,
+  type LabelOptions
+} from '../services/labelPrinting';
+import { GENERATED_FORMAT_LABELS } from '../services/generators/encode';
+import type { GeneratedFormat } from '../services/generators/types';
+
+interface LabelDesignerProps {
+  items: ScannedItem[];
+  onClose: () => void;
+}
+
+/**
+ * Lays out barcode labels for the given items on label sheets or thermal
+ * rolls, with a live preview of the pages before printing
+ */
+const LabelDesigner: React.FC<LabelDesignerProps> = ({ items, onClose }) => {
+  const [options, setOptions] = useState<LabelOptions>(loadLabelOptions);
+  const layout = LABEL_LAYOUTS[options.layout];
+  const perPage = layout.columns * layout.rows;
+
+  const preview = useMemo(() => buildLabelDocument(items, options, true), [items, options]);
+
+  useEffect(() => {
+    saveLabelOptions(options);
+  }, [options]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const update = (changes: Partial<LabelOptions>): void => {
+    setOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const print = (): void => {
+    printDocument(buildLabelDocument(items, options).html);
+  };
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose}>
+      <div
+        className="label-designer"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="label-designer-title"
+        onClick={(e: React.MouseEvent) => e.stopPropagation()}
+      >
+        <h3 id="label-designer-title">Print Labels</h3>
+        <div className="label-designer-body">
+          <div className="label-designer-fields">
+            <label>
+              Labels
+              <select
+                value={options.layout}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                  update({ layout: e.target.value as LabelLayoutId, startPosition: 1 })}
+              >
+                {Object.entries(LABEL_LAYOUTS).map(([id, { label }]) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Barcode
+              <select
+                value={options.format}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                  update({ format: e.target.value as GeneratedFormat | 'auto' })}
+              >
+                <option value="auto">Automatic</option>
+                {Object.entries(GENERATED_FORMAT_LABELS).map(([format, label]) => (
+                  <option key={format} value={format}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Copies per item
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={options.copies}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  update({ copies: Math.min(100, Math.max(1, Math.floor(Number(e.target.value)) || 1)) })}
+              />
+            </label>
+            {perPage > 1 && (
+              <label>
+                Start at label
+                <input
+                  type="number"
+                  min={1}
+                  max={perPage}
+                  value={options.startPosition}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    update({ startPosition: Math.min(perPage, Math.max(1, Math.floor(Number(e.target.value)) || 1)) })}
+                />
+              </label>
+            )}
+            <label>
+              <input
+                type="checkbox"
+                checked={options.showName}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ showName: e.target.checked })}
+              />
+              Name
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={options.showPrice}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ showPrice: e.target.checked })}
+              />
+              Price
+            </label>
+            <p>
+              {preview.labelCount} label(s) on {preview.pageCount} {perPage > 1 ? 'sheet(s)' : 'label page(s)'}
+            </p>
+            {preview.skipped.length > 0 && (
+              <ul className="label-skipped">
+                {preview.skipped.map(({ item, reason }) => (
+                  <li key={item.id}>{item.name || item.barcode}: {reason}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <iframe className="label-preview" title="Label preview" srcDoc={preview.html} sandbox="" />
+        </div>
+        <div className="dialog-actions">
+          <button onClick={onClose}>Close</button>
+          <button onClick={print} disabled={preview.labelCount === 0}>Print</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabelDesigner;
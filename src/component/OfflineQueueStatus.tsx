@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import "./../index.css"
+import { offlineScanQueue, type QueueSnapshot } from '../services/offlineScanQueue';
+
+const statusLabels = {
+  pending: 'Waiting',
+  syncing: 'Sending...',
+  failed: 'Failed',
+} as const;
+
+const OfflineQueueStatus: React.FC = () => {
+  const [snapshot, setSnapshot] = useState<QueueSnapshot | null>(null);
+
+  useEffect(() => offlineScanQueue.subscribe(setSnapshot), []);
+
+  if (!snapshot || (snapshot.entries.length === 0 && snapshot.isOnline && !snapshot.storageError)) {
+    return null;
+  }
+
+  return (
+    <div className={`offline-queue ${snapshot.isOnline ? '' : 'offline'}`}>
+      <div className="offline-queue-header">
+        <span>
+          {snapshot.isOnline ? 'Online' : 'Offline'} - {snapshot.pendingCount} scan(s) pending
+          {snapshot.failedCount > 0 && `, ${snapshot.failedCount} failed`}
+        </span>
+        <button
+          onClick={() => void offlineScanQueue.replay()}
+          disabled={!snapshot.isOnline || snapshot.isReplaying || snapshot.pendingCount === 0}
+        >
+          {snapshot.isReplaying ? 'Syncing...' : 'Sync Now'}
+        </button>
+      </div>
+
+      {snapshot.storageError && <div className="queue-error">{snapshot.storageError}</div>}
+
+      {snapshot.entries.length > 0 && (
+        <ul className="offline-queue-list">
+          {snapshot.entries.map(entry => (
+            <li key={entry.id} className={`queue-entry ${entry.status}`}>
+              <span className="queue-barcode">{entry.barcode}</span>
+              <span className="queue-meta">
+                {entry.source} · {new Date(entry.scannedAt).toLocaleString()}
+              </span>
+              <span className="queue-status">
+                {statusLabels[entry.status]}
+                {entry.attempts > 0 && ` (${entry.attempts} attempt${entry.attempts === 1 ? '' : 's'})`}
+              </span>
+              {entry.lastError && entry.status !== 'syncing' && (
+                <span className="queue-error">{entry.lastError}</span>
+              )}
+              {entry.status === 'failed' && (
+                <span className="queue-actions">
+                  <button onClick={() => void offlineScanQueue.retry(entry.id)}>Retry</button>
+                  <button onClick={() => void offlineScanQueue.discard(entry.id)} className="clear-btn">
+                    Discard
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OfflineQueueStatus;
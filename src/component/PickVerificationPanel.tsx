@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import "./../index.css"
+import type { ShortageReason } from '../types';
+import { pickVerification, SHORTAGE_REASONS, type PickSnapshot } from '../services/pickVerification';
+
+/**
+ * Pick/pack mode: load an order, tick lines off as they are scanned and
+ * flag wrong items and over-picks. While an order is open every scan mode
+ * feeds it.
+ */
+const PickVerificationPanel: React.FC = () => {
+  const [snapshot, setSnapshot] = useState<PickSnapshot | null>(null);
+  const [orderId, setOrderId] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => pickVerification.subscribe(setSnapshot), []);
+
+  if (!snapshot) {
+    return null;
+  }
+
+  const startPick = async (): Promise<void> => {
+    if (!orderId.trim()) return;
+    setMessage('');
+    try {
+      await pickVerification.start(orderId.trim());
+    } catch {
+      // The snapshot carries the error
+    }
+  };
+
+  const completeOrder = async (): Promise<void> => {
+    try {
+      const serverMessage = await pickVerification.complete();
+      setMessage(serverMessage || 'Order completed');
+    } catch (error) {
+      if (!snapshot.canComplete) {
+        setMessage(error instanceof Error ? error.message : 'Order is not complete');
+      }
+    }
+  };
+
+  const cancelPick = (): void => {
+    if (snapshot.phase === 'completed' || window.confirm('Abandon picking this order?')) {
+      setMessage('');
+      void pickVerification.cancel();
+    }
+  };
+
+  if (snapshot.phase === 'idle' || snapshot.phase === 'loading') {
+    return (
+      <div className="pick-panel">
+        <div className="pick-header">
+          <strong>Pick Order</strong>
+          <input
+            value={orderId}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOrderId(e.target.value)}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              if (e.key === 'Enter') void startPick();
+            }}
+            placeholder="Order number"
+            disabled={snapshot.phase === 'loading'}
+          />
+          <button onClick={startPick} disabled={snapshot.phase === 'loading' || !orderId.trim()}>
+            {snapshot.phase === 'loading' ? 'Loading...' : 'Start Picking'}
+          </button>
+        </div>
+        {snapshot.error && <div className="form-error">{snapshot.error}</div>}
+      </div>
+    );
+  }
+
+  if (snapshot.phase === 'completed') {
+    return (
+      <div className="pick-panel completed">
+        <div className="pick-header">
+          <strong>Order {snapshot.completedOrderId} completed</strong>
+          {message && <span>{message}</span>}
+          <button onClick={cancelPick}>Close</button>
+        </div>
+      </div>
+    );
+  }
+
+  const pickedLines = snapshot.lines.filter(line => line.complete).length;
+
+  return (
+    <div className={`pick-panel ${snapshot.alert ? 'alerting' : ''}`}>
+      {snapshot.alert && (
+        // Keyed by time so the flash animation restarts on every new error
+        <div key={snapshot.alert.at} className="pick-alert" role="alert">
+          <span>{snapshot.alert.kind === 'wrong-item' ? 'WRONG ITEM' : 'OVER-PICK'}</span>
+          <span>{snapshot.alert.message}</span>
+          <button onClick={() => pickVerification.dismissAlert()}>OK</button>
+        </div>
+      )}
+
+      <div className="pick-header">
+        <strong>
+          Order {snapshot.order?.orderId}
+          {snapshot.order?.customer && ` · ${snapshot.order.customer}`}
+        </strong>
+        <span className="pick-progress">{pickedLines} / {snapshot.lines.length} lines</span>
+        <button
+          onClick={completeOrder}
+          disabled={!snapshot.canComplete || snapshot.phase === 'completing'}
+          title={snapshot.canComplete ? undefined : 'Pick every line or give a reason for each shortage'}
+        >
+          {snapshot.phase === 'completing' ? 'Completing...' : 'Complete Order'}
+        </button>
+        <button onClick={cancelPick} className="clear-btn" disabled={snapshot.phase === 'completing'}>
+          Cancel
+        </button>
+      </div>
+      {snapshot.error && <div className="form-error">{snapshot.error}</div>}
+      {message && <div className="form-error">{message}</div>}
+
+      <table className="pick-lines">
+        <thead>
+          <tr>
+            <th>Item</th>
+            <th>Picked</th>
+            <th>Shortage reason</th>
+          </tr>
+        </thead>
+        <tbody>
+          {snapshot.lines.map(line => (
+            <tr
+              key={line.barcode}
+              className={`${line.complete ? 'complete' : ''} ${line.barcode === snapshot.lastBarcode ? 'last-picked' : ''}`}
+            >
+              <td>
+                {line.complete && <span className="pick-tick">✓ </span>}
+                {line.name ?? line.barcode}
+                {line.name && <div className="line-barcode">{line.barcode}</div>}
+              </td>
+              <td className="line-quantity">
+                <button
+                  onClick={() => void pickVerification.setPicked(line.barcode, line.picked - 1)}
+                  disabled={line.picked === 0}
+                  aria-label="Put one back"
+                >
+                  −
+                </button>
+                {line.picked} / {line.quantity}
+              </td>
+              <td>
+                {!line.complete && (
+                  <select
+                    value={line.shortageReason ?? ''}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                      void pickVerification.setShortageReason(line.barcode, (e.target.value || null) as ShortageReason | null)}
+                  >
+                    <option value="">Not short</option>
+                    {Object.entries(SHORTAGE_REASONS).map(([code, label]) => (
+                      <option key={code} value={code}>{label}</option>
+                    ))}
+                  </select>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PickVerificationPanel;
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import "./../index.css"
+import {
+  contactToVCard,
+  isAllowedLink,
+  normalizeDomain,
+  QR_PAYLOAD_LABELS,
+  type QrPayload
+} from '../services/qrPayload';
+import { describeGs1Fields } from '../services/gs1';
+import { downloadBlob } from '../services/exportService';
+
+interface QrPayloadViewProps {
+  payload: QrPayload;
+  allowlist: string[];
+  onAllowlistChange: (domains: string[]) => void;
+  onDismiss: () => void;
+}
+
+const CopyButton: React.FC<{ text: string; label?: string }> = ({ text, label = 'Copy' }) => {
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const copy = (): void => {
+    navigator.clipboard?.writeText(text).then(
+      () => setCopied(true),
+      error => console.warn('Could not copy to clipboard:', error)
+    );
+  };
+
+  return <button onClick={copy}>{copied ? 'Copied' : label}</button>;
+};
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <>
+    <dt>{label}</dt>
+    <dd>{children}</dd>
+  </>
+);
+
+/**
+ * A link is only clickable when its domain is allowlisted; it never opens by
+ * itself, and the address is always shown in full.
+ */
+const LinkDetails: React.FC<{
+  url: string;
+  host: string;
+  warnings: string[];
+  allowlist: string[];
+  onAllowlistChange: (domains: string[]) => void;
+}> = ({ url, host, warnings, allowlist, onAllowlistChange }) => {
+  const [draft, setDraft] = useState<string>(() => allowlist.join('\n'));
+  const allowed = isAllowedLink(url, allowlist);
+
+  const saveAllowlist = (): void => {
+    const domains = draft.split(/[\s,]+/).map(normalizeDomain).filter((domain): domain is string => domain !== null);
+    onAllowlistChange([...new Set(domains)]);
+  };
+
+  return (
+    <>
+      <dl>
+        <Field label="Site"><strong>{host}</strong></Field>
+        <Field label="Address"><code className="qr-payload-address">{url}</code></Field>
+      </dl>
+      {warnings.length > 0 && (
+        <ul className="qr-payload-warnings">
+          {warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+      <div className="qr-payload-actions">
+        {allowed ? (
+          <a href={url} target="_blank" rel="noopener noreferrer">Open link</a>
+        ) : (
+          <span className="qr-payload-untrusted">{host} is not a trusted domain, so the link can't be opened from here</span>
+        )}
+        <CopyButton text={url} label="Copy link" />
+      </div>
+      <details className="qr-payload-allowlist">
+        <summary>Trusted link domains ({allowlist.length})</summary>
+        <textarea
+          rows={4}
+          value={draft}
+          placeholder="example.com"
+          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDraft(e.target.value)}
+        />
+        <p>One domain per line; subdomains are included. Only https links to these domains can be opened.</p>
+        <button onClick={saveAllowlist}>Save</button>
+      </details>
+    </>
+  );
+};
+
+const PayloadDetails: React.FC<QrPayloadViewProps> = ({ payload, allowlist, onAllowlistChange }) => {
+  const [showPassword, setShowPassword] = useState<boolean>(false);
+
+  switch (payload.kind) {
+    case 'url':
+      return (
+        <LinkDetails
+          url={payload.url}
+          host={payload.host}
+          warnings={payload.warnings}
+          allowlist={allowlist}
+          onAllowlistChange={onAllowlistChange}
+        />
+      );
+
+    case 'digital-link':
+      return (
+        <>
+          <dl>
+            {describeGs1Fields(payload.gs1.fields).map(element => (
+              <Field key={element.ai} label={element.label}>{element.display}</Field>
+            ))}
+          </dl>
+          <LinkDetails
+            url={payload.url}
+            host={new URL(payload.url).hostname}
+            warnings={[]}
+            allowlist={allowlist}
+            onAllowlistChange={onAllowlistChange}
+          />
+        </>
+      );
+
+    case 'contact': {
+      const { contact } = payload;
+      return (
+        <>
+          <dl>
+            {contact.name && <Field label="Name">{contact.name}</Field>}
+            {contact.organization && <Field label="Organization">{contact.organization}</Field>}
+            {contact.title && <Field label="Title">{contact.title}</Field>}
+            {contact.phones.map(phone => <Field key={phone} label="Phone">{phone}</Field>)}
+            {contact.emails.map(email => <Field key={email} label="Email">{email}</Field>)}
+            {contact.urls.map(url => <Field key={url} label="Website"><code>{url}</code></Field>)}
+            {contact.address && <Field label="Address">{contact.address}</Field>}
+            {contact.note && <Field label="Note">{contact.note}</Field>}
+          </dl>
+          <div className="qr-payload-actions">
+            <button
+              onClick={() => downloadBlob(
+                new Blob([contact.source === 'vcard' ? payload.raw : contactToVCard(contact)], { type: 'text/vcard' }),
+                `${(contact.name ?? 'contact').replace(/[^\w-]+/g, '_')}.vcf`
+              )}
+            >
+              Save Contact
+            </button>
+          </div>
+        </>
+      );
+    }
+
+    case 'wifi': {
+      const { network } = payload;
+      return (
+        <>
+          <dl>
+            <Field label="Network">{network.ssid}{network.hidden ? ' (hidden)' : ''}</Field>
+            <Field label="Security">{network.security === 'nopass' ? 'Open' : network.security}</Field>
+            {network.password && (
+              <Field label="Password">
+                <code>{showPassword ? network.password : '•'.repeat(8)}</code>
+              </Field>
+            )}
+          </dl>
+          {network.password && (
+            <div className="qr-payload-actions">
+              <button onClick={() => setShowPassword(prev => !prev)}>{showPassword ? 'Hide' : 'Show'} Password</button>
+              <CopyButton text={network.password} label="Copy Password" />
+            </div>
+          )}
+        </>
+      );
+    }
+
+    case 'geo': {
+      const { latitude, longitude, altitude, query } = payload.location;
+      return (
+        <>
+          <dl>
+            {query && <Field label="Place">{query}</Field>}
+            <Field label="Coordinates">{latitude}, {longitude}</Field>
+            {altitude !== undefined && <Field label="Altitude">{altitude} m</Field>}
+          </dl>
+          <div className="qr-payload-actions">
+            <a
+              href={`https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              Show on Map
+            </a>
+            <CopyButton text={`${latitude}, ${longitude}`} label="Copy Coordinates" />
+          </div>
+        </>
+      );
+    }
+
+    case 'asset':
+      return (
+        <>
+          <dl>
+            <Field label="Asset ID"><strong>{payload.id}</strong></Field>
+            {payload.fields.map(([key, value]) => <Field key={key} label={key}>{value}</Field>)}
+          </dl>
+          <div className="qr-payload-actions">
+            <CopyButton text={payload.id} label="Copy ID" />
+          </div>
+        </>
+      );
+
+    case 'json':
+      return <pre className="qr-payload-text">{JSON.stringify(payload.value, null, 2)}</pre>;
+
+    case 'product':
+    case 'text': {
+      const text = payload.kind === 'text' ? payload.text : payload.code;
+      return (
+        <>
+          <pre className="qr-payload-text">{text}</pre>
+          <div className="qr-payload-actions">
+            <CopyButton text={text} />
+          </div>
+        </>
+      );
+    }
+  }
+};
+
+/**
+ * What a scanned QR code holds when it isn't a product code
+ */
+const QrPayloadView: React.FC<QrPayloadViewProps> = (props) => (
+  <div className={`qr-payload qr-payload-${props.payload.kind}`}>
+    <div className="qr-payload-header">
+      <strong>QR code: {QR_PAYLOAD_LABELS[props.payload.kind]}</strong>
+      <button onClick={props.onDismiss} aria-label="Dismiss">×</button>
+    </div>
+    <PayloadDetails {...props} />
+  </div>
+);
+
+export default QrPayloadView;
@@ -0,0 +1,64 @@
+import React from 'react';
+import "./../index.css"
+import type { ConfirmationPolicy } from '../services/scanConfirmation';
+
+interface ScanConfirmationSettingsProps {
+  policy: ConfirmationPolicy;
+  onChange: (policy: ConfirmationPolicy) => void;
+}
+
+const toNumber = (value: string, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const ScanConfirmationSettings: React.FC<ScanConfirmationSettingsProps> = ({ policy, onChange }) => {
+  return (
+    <div className="confirmation-settings">
+      <label>
+        Matching reads
+        <input
+          type="number"
+          min={1}
+          max={10}
+          value={policy.requiredMatches}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            onChange({ ...policy, requiredMatches: Math.max(1, toNumber(e.target.value, policy.requiredMatches)) })}
+        />
+      </label>
+      <label>
+        within (ms)
+        <input
+          type="number"
+          min={100}
+          step={100}
+          value={policy.windowMs}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            onChange({ ...policy, windowMs: toNumber(e.target.value, policy.windowMs) })}
+        />
+      </label>
+      <label>
+        Cooldown (s)
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={policy.cooldownMs / 1000}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            onChange({ ...policy, cooldownMs: toNumber(e.target.value, policy.cooldownMs / 1000) * 1000 })}
+        />
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={policy.promptOnRepeat}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            onChange({ ...policy, promptOnRepeat: e.target.checked })}
+        />
+        Ask before counting the same item again
+      </label>
+    </div>
+  );
+};
+
+export default ScanConfirmationSettings;
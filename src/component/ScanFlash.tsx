@@ -0,0 +1,28 @@
+import React, { useEffect, useState } from 'react';
+import "./../index.css"
+import { scanFeedback, type FlashEvent } from '../services/scanFeedback';
+
+/**
+ * Full-screen colour flash for each scan outcome, visible from the corner of
+ * the eye. Keyed by event so back-to-back scans restart the animation.
+ */
+const ScanFlash: React.FC = () => {
+  const [flash, setFlash] = useState<FlashEvent | null>(null);
+
+  useEffect(() => scanFeedback.onFlash(setFlash), []);
+
+  if (!flash) {
+    return null;
+  }
+  return (
+    <div
+      key={flash.id}
+      className="scan-flash"
+      style={{ backgroundColor: flash.color }}
+      onAnimationEnd={() => setFlash(current => (current?.id === flash.id ? null : current))}
+      aria-hidden="true"
+    />
+  );
+};
+
+export default ScanFlash;
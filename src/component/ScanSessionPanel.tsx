@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import "./../index.css"
+import {
+  scanSessions,
+  sessionItemCount,
+  sessionTotal,
+  type SessionLine,
+  type SessionsSnapshot
+} from '../services/scanSessions';
+
+interface QuantityInputProps {
+  line: SessionLine;
+  onCommit: (quantity: number) => void;
+}
+
+/**
+ * Typed quantity, applied on blur or Enter so each keystroke isn't an undo step
+ */
+const QuantityInput: React.FC<QuantityInputProps> = ({ line, onCommit }) => {
+  const [draft, setDraft] = useState<string>(String(line.quantity));
+
+  useEffect(() => {
+    setDraft(String(line.quantity));
+  }, [line.quantity]);
+
+  const commit = (): void => {
+    const quantity = Number(draft);
+    if (draft.trim() === '' || !Number.isFinite(quantity)) {
+      setDraft(String(line.quantity));
+      return;
+    }
+    onCommit(quantity);
+  };
+
+  return (
+    <input
+      type="number"
+      min={0}
+      value={draft}
+      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') commit();
+      }}
+      aria-label={`Quantity of ${line.name}`}
+    />
+  );
+};
+
+interface SessionNameInputProps {
+  name: string;
+  onCommit: (name: string) => void;
+}
+
+const SessionNameInput: React.FC<SessionNameInputProps> = ({ name, onCommit }) => {
+  const [draft, setDraft] = useState<string>(name);
+
+  useEffect(() => {
+    setDraft(name);
+  }, [name]);
+
+  const commit = (): void => {
+    if (draft.trim()) {
+      onCommit(draft);
+    } else {
+      setDraft(name);
+    }
+  };
+
+  return (
+    <input
+      className="session-name"
+      value={draft}
+      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') commit();
+      }}
+      aria-label="Session name"
+    />
+  );
+};
+
+/**
+ * The active scan session as quantity lines with a running total, plus
+ * controls to start, pause and resume named sessions
+ */
+const ScanSessionPanel: React.FC = () => {
+  const [snapshot, setSnapshot] = useState<SessionsSnapshot | null>(null);
+  const [newName, setNewName] = useState<string>('');
+
+  useEffect(() => scanSessions.subscribe(setSnapshot), []);
+
+  if (!snapshot) {
+    return null;
+  }
+
+  const { active, nextMultiplier } = snapshot;
+  const paused = snapshot.sessions.filter(session => session.status === 'paused');
+
+  const startSession = (): void => {
+    void scanSessions.create(newName);
+    setNewName('');
+  };
+
+  return (
+    <div className="scan-session">
+      <div className="scan-session-header">
+        {active ? (
+          <>
+            <SessionNameInput name={active.name} onCommit={name => void scanSessions.rename(active.id, name)} />
+            <span className="session-summary">
+              {sessionItemCount(active)} item(s) · ${sessionTotal(active).toFixed(2)}
+            </span>
+            <button onClick={() => void scanSessions.pause(active.id)}>Pause</button>
+          </>
+        ) : (
+          <span className="session-summary">No active session - the next scan starts one</span>
+        )}
+        {nextMultiplier > 1 && (
+          <span className="session-multiplier">
+            Next scan ×{nextMultiplier}
+            <button onClick={() => scanSessions.setNextMultiplier(1)} className="clear-btn">Cancel</button>
+          </span>
+        )}
+      </div>
+
+      {active && active.lines.length > 0 && (
+        <table className="session-lines">
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>Qty</th>
+              <th>Price</th>
+              <th>Total</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {active.lines.map(line => (
+              <tr key={line.key} className={line.unconfirmed ? 'unconfirmed' : ''}>
+                <td>
+                  <strong>{line.name}</strong>
+                  <div className="line-barcode">
+                    {line.barcode}
+                    {line.gs1?.['10'] && ` · lot ${line.gs1['10']}`}
+                    {line.gs1?.['21'] && ` · serial ${line.gs1['21']}`}
+                    {line.unconfirmed && ' · waiting for server'}
+                  </div>
+                </td>
+                <td className="line-quantity">
+                  <button onClick={() => void scanSessions.adjustQuantity(active.id, line.key, -1)} aria-label="Decrease">−</button>
+                  <QuantityInput line={line} onCommit={quantity => void scanSessions.setQuantity(active.id, line.key, quantity)} />
+                  <button onClick={() => void scanSessions.adjustQuantity(active.id, line.key, 1)} aria-label="Increase">+</button>
+                </td>
+                <td>${line.price.toFixed(2)}</td>
+                <td>${(line.price * line.quantity).toFixed(2)}</td>
+                <td className="line-actions">
+                  <button onClick={() => void scanSessions.undoLine(active.id, line.key)} disabled={line.history.length === 0}>
+                    Undo
+                  </button>
+                  <button onClick={() => void scanSessions.removeLine(active.id, line.key)} className="clear-btn">
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td>Total</td>
+              <td>{sessionItemCount(active)}</td>
+              <td></td>
+              <td>${sessionTotal(active).toFixed(2)}</td>
+              <td></td>
+            </tr>
+          </tfoot>
+        </table>
+      )}
+
+      <div className="session-controls">
+        <input
+          value={newName}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewName(e.target.value)}
+          placeholder="New session name"
+        />
+        <button onClick={startSession}>Start Session</button>
+      </div>
+
+      {paused.length > 0 && (
+        <ul className="paused-sessions">
+          {paused.map(session => (
+            <li key={session.id}>
+              <span>{session.name}</span>
+              <span className="session-summary">
+                {sessionItemCount(session)} item(s) · ${sessionTotal(session).toFixed(2)}
+              </span>
+              <button onClick={() => void scanSessions.resume(session.id)}>Resume</button>
+              <button onClick={() => void scanSessions.remove(session.id)} className="clear-btn">Delete</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScanSessionPanel;
@@ -0,0 +1,375 @@
+import React, { useMemo, useState } from 'react';
+import "./../index.css"
+import type { ScannedItem } from '../types';
+import { buildExport, downloadBlob, EXPORT_COLUMNS, itemsToRows, type ExportColumn } from '../services/exportService';
+import {
+  DEFAULT_ITEM_QUERY,
+  itemFormats,
+  parseDateInput,
+  queryItems,
+  type ItemQuery,
+  type ItemSortKey
+} from '../services/itemQuery';
+import { useItemMutations } from '../hooks/useItemMutations';
+import { useVirtualList } from '../hooks/useVirtualList';
+import ItemEditForm from './ItemEditForm';
+import ConfirmDialog from './ConfirmDialog';
+import UndoToast from './UndoToast';
+import LabelDesigner from './LabelDesigner';
+
+interface ScannedItemsListProps {
+  items: ScannedItem[];
+  /** Receives optimistic edits and deletes, and their rollbacks */
+  onItemsChange: React.Dispatch<React.SetStateAction<ScannedItem[]>>;
+  /** Extra content under an item's details, e.g. its GS1 fields */
+  renderDetails?: (item: ScannedItem) => React.ReactNode;
+}
+
+interface FilterInputs {
+  search: string;
+  minPrice: string;
+  maxPrice: string;
+  from: string;
+  to: string;
+  format: string;
+}
+
+const EMPTY_FILTERS: FilterInputs = { search: '', minPrice: '', maxPrice: '', from: '', to: '', format: '' };
+
+// Starting guesses until rows are measured
+const CARD_HEIGHT = 150;
+const ROW_HEIGHT = 40;
+
+const SORT_LABELS: Record<ItemSortKey, string> = {
+  timestamp: 'Scanned at',
+  name: 'Name',
+  barcode: 'Barcode',
+  price: 'Price',
+};
+
+const parsePrice = (value: string): number | undefined => {
+  const price = Number(value);
+  return value.trim() && Number.isFinite(price) ? price : undefined;
+};
+
+/**
+ * The scanned items as cards or a table, virtualized so only the rows in
+ * view are rendered, with search, filters and sorting, plus per-item
+ * edit/delete and bulk actions
+ */
+const ScannedItemsList: React.FC<ScannedItemsListProps> = ({ items, onItemsChange, renderDetails }) => {
+  const [filters, setFilters] = useState<FilterInputs>(EMPTY_FILTERS);
+  const [sortBy, setSortBy] = useState<ItemSortKey>(DEFAULT_ITEM_QUERY.sortBy);
+  const [sortDirection, setSortDirection] = useState<ItemQuery['sortDirection']>(DEFAULT_ITEM_QUERY.sortDirection);
+  const [view, setView] = useState<'cards' | 'table'>('cards');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<boolean>(false);
+  const [printingLabels, setPrintingLabels] = useState<boolean>(false);
+  const mutations = useItemMutations(onItemsChange);
+
+  const formats = useMemo(() => itemFormats(items), [items]);
+  const matches = useMemo(() => queryItems(items, {
+    search: filters.search,
+    minPrice: parsePrice(filters.minPrice),
+    maxPrice: parsePrice(filters.maxPrice),
+    from: parseDateInput(filters.from),
+    to: parseDateInput(filters.to, true),
+    format: filters.format || undefined,
+    sortBy,
+    sortDirection,
+  }), [items, filters, sortBy, sortDirection]);
+  // Cards and table rows differ in height, so each view keeps its own measurements
+  const rowKey = (item: ScannedItem): string => `${view}-${item.id}`;
+  const list = useVirtualList(matches.map(rowKey), view === 'cards' ? CARD_HEIGHT : ROW_HEIGHT);
+  const visible = matches.slice(list.start, list.end);
+  const filtered = Object.values(filters).some(Boolean);
+  // Ignore ids that have since left the list, e.g. after Clear All
+  const selectedItems = items.filter(item => selected.has(item.id));
+  const allSelected = matches.length > 0 && matches.every(item => selected.has(item.id));
+
+  const updateFilter = (key: keyof FilterInputs, value: string): void => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    list.scrollToTop();
+  };
+
+  // Clicking the active column flips its direction; a new column starts descending
+  const sortOn = (key: ItemSortKey): void => {
+    if (key === sortBy) {
+      setSortDirection(prev => (prev === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortBy(key);
+      setSortDirection('desc');
+    }
+  };
+
+  const toggleSelected = (id: number): void => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Covers every item matching the filters, not just the rendered ones
+  const toggleAll = (): void => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      matches.forEach(item => (allSelected ? next.delete(item.id) : next.add(item.id)));
+      return next;
+    });
+  };
+
+  const deleteItems = (toDelete: ScannedItem[]): void => {
+    mutations.deleteItems(toDelete);
+    setSelected(prev => new Set([...prev].filter(id => !toDelete.some(item => item.id === id))));
+  };
+
+  const exportSelected = (): void => {
+    const { blob, filename } = buildExport(itemsToRows(selectedItems), {
+      format: 'csv',
+      columns: Object.keys(EXPORT_COLUMNS) as ExportColumn[],
+      delimiter: ',',
+    });
+    downloadBlob(blob, filename);
+  };
+
+  const itemActions = (item: ScannedItem): React.ReactNode => (
+    <div className="item-actions">
+      <button onClick={() => setEditingId(item.id)}>Edit</button>
+      <button onClick={() => deleteItems([item])} className="clear-btn">Delete</button>
+    </div>
+  );
+
+  const editForm = (item: ScannedItem): React.ReactNode => (
+    <ItemEditForm
+      item={item}
+      onSave={(changes) => {
+        setEditingId(null);
+        void mutations.updateItem(item, changes);
+      }}
+      onCancel={() => setEditingId(null)}
+    />
+  );
+
+  const sortIndicator = (key: ItemSortKey): string =>
+    key === sortBy ? (sortDirection === 'asc' ? ' ▲' : ' ▼') : '';
+
+  return (
+    <div className="results">
+      <h2>
+        Scanned Items ({filtered ? `${matches.length} of ${items.length}` : items.length})
+      </h2>
+
+      <div className="items-toolbar">
+        <input
+          type="search"
+          value={filters.search}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('search', e.target.value)}
+          placeholder="Search name or barcode"
+          aria-label="Search items"
+        />
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={filters.minPrice}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('minPrice', e.target.value)}
+          placeholder="Min price"
+          aria-label="Minimum price"
+        />
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={filters.maxPrice}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('maxPrice', e.target.value)}
+          placeholder="Max price"
+          aria-label="Maximum price"
+        />
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('from', e.target.value)}
+          aria-label="Scanned from"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('to', e.target.value)}
+          aria-label="Scanned to"
+        />
+        <select
+          value={filters.format}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateFilter('format', e.target.value)}
+          aria-label="Format"
+        >
+          <option value="">All formats</option>
+          {formats.map(format => (
+            <option key={format} value={format}>{format}</option>
+          ))}
+        </select>
+        {filtered && (
+          <button onClick={() => { setFilters(EMPTY_FILTERS); list.scrollToTop(); }} className="clear-btn">
+            Clear Filters
+          </button>
+        )}
+      </div>
+
+      <div className="items-toolbar">
+        <label>
+          Sort by{' '}
+          <select value={sortBy} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSortBy(e.target.value as ItemSortKey)}>
+            {Object.entries(SORT_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={() => setSortDirection(prev => (prev === 'asc' ? 'desc' : 'asc'))}>
+          {sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+        </button>
+        <div className="view-toggle">
+          <button className={view === 'cards' ? 'active' : ''} onClick={() => setView('cards')}>Cards</button>
+          <button className={view === 'table' ? 'active' : ''} onClick={() => setView('table')}>Table</button>
+        </div>
+      </div>
+
+      {mutations.error && <div className="form-error">{mutations.error}</div>}
+
+      {selectedItems.length > 0 && (
+        <div className="bulk-actions">
+          <span>{selectedItems.length} selected</span>
+          <button onClick={exportSelected}>Export Selected</button>
+          <button onClick={() => setPrintingLabels(true)}>Print Labels</button>
+          <button onClick={() => setConfirmingDelete(true)} className="clear-btn">Delete Selected</button>
+          <button onClick={() => setSelected(new Set())}>Clear Selection</button>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <p>No items scanned yet.</p>
+      ) : matches.length === 0 ? (
+        <p>No items match these filters.</p>
+      ) : view === 'cards' ? (
+        <>
+          <label className="select-page">
+            <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+            Select all
+          </label>
+          <div className="items-viewport" ref={list.viewport} onScroll={list.onScroll}>
+            <div className="items-list" style={{ paddingTop: list.before, paddingBottom: list.after }}>
+              {visible.map(item => (
+                <div key={item.id} ref={list.measure(rowKey(item))} className="virtual-row">
+                  <div className={`item-card${selected.has(item.id) ? ' selected' : ''}`}>
+                    <input
+                      type="checkbox"
+                      checked={selected.has(item.id)}
+                      onChange={() => toggleSelected(item.id)}
+                      aria-label={`Select ${item.name}`}
+                    />
+                    {editingId === item.id ? editForm(item) : (
+                      <>
+                        <div className="item-info">
+                          <h3>{item.name}</h3>
+                          <p>Barcode: {item.barcode}</p>
+                          <p>Price: ${item.price.toFixed(2)}</p>
+                          {(item.quantity ?? 1) > 1 && <p>Quantity: {item.quantity}</p>}
+                          {item.format && <p>Format: {item.format}</p>}
+                          {item.note && <p className="item-note">Note: {item.note}</p>}
+                          {renderDetails?.(item)}
+                        </div>
+                        <div className="item-meta">
+                          <span>Scanned at: {item.timestamp}</span>
+                          {itemActions(item)}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="items-viewport" ref={list.viewport} onScroll={list.onScroll}>
+          <table className="items-table">
+            <thead>
+              <tr>
+                <th>
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all" />
+                </th>
+                {(['name', 'barcode', 'price', 'timestamp'] as const).map(key => (
+                  <th key={key} aria-sort={key === sortBy ? (sortDirection === 'asc' ? 'ascending' : 'descending') : undefined}>
+                    <button onClick={() => sortOn(key)}>{SORT_LABELS[key]}{sortIndicator(key)}</button>
+                  </th>
+                ))}
+                <th>Qty</th>
+                <th>Format</th>
+                <th>Note</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {list.before > 0 && <tr aria-hidden="true" style={{ height: list.before }} />}
+              {visible.map(item => editingId === item.id ? (
+                <tr key={item.id} ref={list.measure(rowKey(item))}>
+                  <td colSpan={9}>{editForm(item)}</td>
+                </tr>
+              ) : (
+                <tr key={item.id} ref={list.measure(rowKey(item))} className={selected.has(item.id) ? 'selected' : ''}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={selected.has(item.id)}
+                      onChange={() => toggleSelected(item.id)}
+                      aria-label={`Select ${item.name}`}
+                    />
+                  </td>
+                  <td>{item.name}</td>
+                  <td>{item.barcode}</td>
+                  <td>${item.price.toFixed(2)}</td>
+                  <td>{item.timestamp}</td>
+                  <td>{item.quantity ?? 1}</td>
+                  <td>{item.format ?? ''}</td>
+                  <td>{item.note ?? ''}</td>
+                  <td>{itemActions(item)}</td>
+                </tr>
+              ))}
+              {list.after > 0 && <tr aria-hidden="true" style={{ height: list.after }} />}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {confirmingDelete && (
+        <ConfirmDialog
+          title="Delete selected items?"
+          message={`${selectedItems.length} item(s) will be deleted. You can undo for a few seconds afterwards.`}
+          confirmLabel="Delete"
+          onConfirm={() => {
+            setConfirmingDelete(false);
+            deleteItems(selectedItems);
+          }}
+          onCancel={() => setConfirmingDelete(false)}
+        />
+      )}
+
+      {printingLabels && selectedItems.length > 0 && (
+        <LabelDesigner items={selectedItems} onClose={() => setPrintingLabels(false)} />
+      )}
+
+      {mutations.toast && (
+        <UndoToast
+          key={mutations.toast.id}
+          message={mutations.toast.message}
+          onUndo={mutations.undo}
+          onDismiss={mutations.dismissToast}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ScannedItemsList;
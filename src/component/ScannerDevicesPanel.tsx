@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import "./../index.css"
+import { scannerDevices, type ScannerDevicesSnapshot, type ScannerStatus } from '../services/scannerDevices';
+import { MockScanner } from '../services/scanners/mockScanner';
+
+const STATUS_LABELS: Record<ScannerStatus, string> = {
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  disconnected: 'Disconnected',
+  error: 'Error',
+};
+
+/** What the mock sends, cycling through the demo barcodes */
+const MOCK_SCANS: { code: string; aimId: string }[] = [
+  { code: '5901234123457', aimId: ']E0' },
+  { code: '5012345678900', aimId: ']E0' },
+  { code: '1234567890128', aimId: ']E0' },
+];
+
+/**
+ * Pairing and status for dedicated scanners in HID-POS or serial mode. Their
+ * reads are handled by whoever listens on scannerDevices.onScan.
+ */
+const ScannerDevicesPanel: React.FC = () => {
+  const [snapshot, setSnapshot] = useState<ScannerDevicesSnapshot | null>(null);
+  const [mockIndex, setMockIndex] = useState<number>(0);
+
+  useEffect(() => scannerDevices.subscribe(setSnapshot), []);
+
+  if (!snapshot) {
+    return null;
+  }
+
+  const sendMockScan = (id: string): void => {
+    const connection = scannerDevices.getConnection(id);
+    if (connection instanceof MockScanner) {
+      const { code, aimId } = MOCK_SCANS[mockIndex % MOCK_SCANS.length];
+      connection.scan(code, aimId);
+      setMockIndex(mockIndex + 1);
+    }
+  };
+
+  const unsupported = !snapshot.hidSupported && !snapshot.serialSupported;
+
+  return (
+    <div className="scanner-devices">
+      <div className="scanner-devices-header">
+        <strong>Dedicated scanners</strong>
+        <div>
+          {snapshot.hidSupported && (
+            <button onClick={() => void scannerDevices.pairHid()}>Pair HID-POS Scanner</button>
+          )}
+          {snapshot.serialSupported && (
+            <button onClick={() => void scannerDevices.pairSerial()}>Pair Serial Scanner</button>
+          )}
+          {import.meta.env.DEV && (
+            <button onClick={() => void scannerDevices.addMock()}>Add Mock Scanner</button>
+          )}
+        </div>
+      </div>
+
+      {unsupported && (
+        <p className="scanner-devices-note">
+          This browser can't connect to scanners directly. Use keyboard mode, or Chrome or Edge for HID-POS and serial.
+        </p>
+      )}
+      {snapshot.error && <div className="form-error">{snapshot.error}</div>}
+
+      {snapshot.devices.length > 0 && (
+        <ul>
+          {snapshot.devices.map(device => (
+            <li key={device.id} className={`scanner-device ${device.status}`}>
+              <span>
+                {device.label} - {STATUS_LABELS[device.status]}
+                {device.reads > 0 && ` (${device.reads} read${device.reads === 1 ? '' : 's'})`}
+              </span>
+              {device.error && <span className="scanner-device-error">{device.error}</span>}
+              <span className="scanner-device-actions">
+                {device.kind === 'mock' && device.status === 'connected' && (
+                  <button onClick={() => sendMockScan(device.id)}>Send Test Scan</button>
+                )}
+                {(device.status === 'disconnected' || device.status === 'error') && (
+                  <button onClick={() => void scannerDevices.reconnect(device.id)}>Reconnect</button>
+                )}
+                {device.status === 'connected' && (
+                  <button onClick={() => void scannerDevices.disconnect(device.id)}>Disconnect</button>
+                )}
+                <button onClick={() => void scannerDevices.forget(device.id)} className="stop-btn">Forget</button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScannerDevicesPanel;
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import "./../index.css"
+import { stockCount, type StockCountSnapshot } from '../services/stockCount';
+
+const statusLabels = {
+  match: 'OK',
+  over: 'Over',
+  under: 'Under',
+  unexpected: 'Unexpected',
+} as const;
+
+/**
+ * Cycle count against a location's expected stock. While a count is running,
+ * every scan mode feeds it instead of recording scans one by one.
+ */
+const StockCountPanel: React.FC = () => {
+  const [snapshot, setSnapshot] = useState<StockCountSnapshot | null>(null);
+  const [locationId, setLocationId] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => stockCount.subscribe(setSnapshot), []);
+
+  if (!snapshot) {
+    return null;
+  }
+
+  const startCount = async (): Promise<void> => {
+    if (!locationId.trim()) return;
+    setMessage('');
+    try {
+      await stockCount.start(locationId.trim());
+    } catch {
+      // The snapshot carries the error
+    }
+  };
+
+  const submitReport = async (): Promise<void> => {
+    try {
+      const serverMessage = await stockCount.submit();
+      setMessage(serverMessage || 'Variance report submitted');
+    } catch {
+      // The snapshot carries the error
+    }
+  };
+
+  const cancelCount = (): void => {
+    if (snapshot.phase === 'submitted' || window.confirm('Discard this stock count?')) {
+      setMessage('');
+      void stockCount.cancel();
+    }
+  };
+
+  if (snapshot.phase === 'idle' || snapshot.phase === 'loading') {
+    return (
+      <div className="stock-count">
+        <div className="stock-count-header">
+          <strong>Stock Count</strong>
+          <input
+            value={locationId}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLocationId(e.target.value)}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              if (e.key === 'Enter') void startCount();
+            }}
+            placeholder="Location ID"
+            disabled={snapshot.phase === 'loading'}
+          />
+          <button onClick={startCount} disabled={snapshot.phase === 'loading' || !locationId.trim()}>
+            {snapshot.phase === 'loading' ? 'Loading...' : 'Start Count'}
+          </button>
+        </div>
+        {snapshot.error && <div className="form-error">{snapshot.error}</div>}
+      </div>
+    );
+  }
+
+  const lines = snapshot.phase === 'submitted' ? snapshot.submittedReport?.lines ?? [] : snapshot.lines;
+  const totals = snapshot.phase === 'submitted' ? snapshot.submittedReport?.totals ?? snapshot.totals : snapshot.totals;
+
+  return (
+    <div className={`stock-count ${snapshot.phase}`}>
+      <div className="stock-count-header">
+        <strong>
+          {snapshot.phase === 'submitted' ? 'Count submitted' : 'Counting'}{' '}
+          {snapshot.locationName ?? snapshot.locationId ?? snapshot.submittedReport?.locationId}
+        </strong>
+        <span className="variance-totals">
+          <span className="match">{totals.match} OK</span>
+          <span className="over">{totals.over} over</span>
+          <span className="under">{totals.under} under</span>
+          <span className="unexpected">{totals.unexpected} unexpected</span>
+        </span>
+        {snapshot.phase !== 'submitted' && (
+          <button onClick={submitReport} disabled={snapshot.phase === 'submitting'}>
+            {snapshot.phase === 'submitting' ? 'Submitting...' : 'Submit Report'}
+          </button>
+        )}
+        <button onClick={cancelCount} className="clear-btn" disabled={snapshot.phase === 'submitting'}>
+          {snapshot.phase === 'submitted' ? 'Close' : 'Cancel Count'}
+        </button>
+      </div>
+      {snapshot.error && <div className="form-error">{snapshot.error}</div>}
+      {message && <div className="stock-count-message">{message}</div>}
+
+      <table className="variance-lines">
+        <thead>
+          <tr>
+            <th>Item</th>
+            <th>Expected</th>
+            <th>Counted</th>
+            <th>Variance</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map(line => (
+            <tr
+              key={line.barcode}
+              className={`${line.status} ${line.barcode === snapshot.lastBarcode ? 'last-counted' : ''}`}
+            >
+              <td>
+                {line.name ?? line.barcode}
+                {line.name && <div className="line-barcode">{line.barcode}</div>}
+              </td>
+              <td>{line.expected}</td>
+              <td>
+                {snapshot.phase === 'counting' ? (
+                  <input
+                    type="number"
+                    min={0}
+                    value={line.counted}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      void stockCount.setCount(line.barcode, Number(e.target.value))}
+                    aria-label={`Counted quantity of ${line.name ?? line.barcode}`}
+                  />
+                ) : line.counted}
+              </td>
+              <td>{line.variance > 0 ? `+${line.variance}` : line.variance}</td>
+              <td className="variance-status">{statusLabels[line.status]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default StockCountPanel;
@@ -0,0 +1,18 @@
+import React from 'react';
+import "./../index.css"
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => (
+  <div className="undo-toast" role="status">
+    <span>{message}</span>
+    <button onClick={onUndo}>Undo</button>
+    <button onClick={onDismiss} aria-label="Dismiss" className="toast-close">×</button>
+  </div>
+);
+
+export default UndoToast;
@@ -0,0 +1,91 @@
+import React from 'react';
+import "./../index.css"
+import type { WedgeConfig } from '../services/keyboardWedge';
+
+interface WedgeSettingsProps {
+  config: WedgeConfig;
+  onChange: (config: WedgeConfig) => void;
+}
+
+const SUFFIXES: { value: string; label: string }[] = [
+  { value: '\r', label: 'Enter' },
+  { value: '\t', label: 'Tab' },
+  { value: '', label: 'None (pause)' },
+];
+
+const toNumber = (value: string, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const WedgeSettings: React.FC<WedgeSettingsProps> = ({ config, onChange }) => {
+  return (
+    <details className="wedge-settings">
+      <summary>
+        Hardware scanner: {config.enabled ? 'listening on the whole page' : 'only in the input above'}
+      </summary>
+      <div className="wedge-settings-fields">
+        <label>
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...config, enabled: e.target.checked })}
+          />
+          Catch scans anywhere on the page
+        </label>
+        <label>
+          Prefix
+          <input
+            type="text"
+            value={config.prefix}
+            placeholder="none"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...config, prefix: e.target.value })}
+          />
+        </label>
+        <label>
+          Suffix
+          <select
+            value={config.suffix}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange({ ...config, suffix: e.target.value })}
+          >
+            {SUFFIXES.map(suffix => (
+              <option key={suffix.label} value={suffix.value}>{suffix.label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Max key gap (ms)
+          <input
+            type="number"
+            min={5}
+            max={200}
+            value={config.maxKeyIntervalMs}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onChange({ ...config, maxKeyIntervalMs: toNumber(e.target.value, config.maxKeyIntervalMs) })}
+          />
+        </label>
+        <label>
+          Min length
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={config.minLength}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onChange({ ...config, minLength: toNumber(e.target.value, config.minLength) })}
+          />
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={config.aimIds}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...config, aimIds: e.target.checked })}
+          />
+          Read AIM symbology identifiers (]E0, ]C1, ...)
+        </label>
+      </div>
+    </details>
+  );
+};
+
+export default WedgeSettings;
@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BarcodeDetectionService, type BarcodeDetectionResult } from '../services/barcodeDetectionService';
+import { scanArea, videoConstraints, type CameraPreferences } from '../services/cameraControls';
+import type { ScanConfirmationFilter } from '../services/scanConfirmation';
+
+export type CameraStatus = 'idle' | 'requesting-permission' | 'denied' | 'active' | 'paused' | 'error';
+
+export interface LiveDecoding {
+  /** Element Quagga renders its preview into; it must be in the DOM before start() */
+  containerId: string;
+  onDetected: (result: BarcodeDetectionResult) => void;
+  filter?: ScanConfirmationFilter;
+}
+
+export interface BarcodeCameraOptions {
+  /** Decode frames in the browser. Without it the stream only plays in `videoRef`. */
+  live?: LiveDecoding;
+}
+
+const DENIED_ERRORS = ['NotAllowedError', 'PermissionDeniedError', 'SecurityError'];
+
+const errorName = (error: unknown): string =>
+  error instanceof DOMException || error instanceof Error ? error.name : '';
+
+export const describeCameraError = (error: unknown): string => {
+  const name = errorName(error);
+  if (DENIED_ERRORS.includes(name)) {
+    return 'Camera access was blocked. Allow it in the browser\'s site settings and try again.';
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return 'No camera matches the selected device and resolution';
+  }
+  if (name === 'NotReadableError') {
+    return 'The camera is in use by another application';
+  }
+  return 'Could not start the camera';
+};
+
+/**
+ * Owns one camera: the stream, Quagga's decoder when live decoding is on,
+ * and the transitions between them. Calls that overlap (double clicks,
+ * StrictMode remounts, stop during the permission prompt) settle on the
+ * latest one; the camera pauses while the tab is hidden and is released on unmount.
+ */
+export const useBarcodeCamera = (options: BarcodeCameraOptions = {}) => {
+  const [status, setStatus] = useState<CameraStatus>('idle');
+  const [error, setError] = useState<string>('');
+  const [track, setTrack] = useState<MediaStreamTrack | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const optionsRef = useRef(options);
+  // Which backend the running camera uses; options could change while it runs
+  const liveRef = useRef<LiveDecoding | null>(null);
+  // Bumped by every start and stop; a start that resolves after a newer call gives its camera up
+  const generationRef = useRef(0);
+  const pausedWhileHiddenRef = useRef(false);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const release = useCallback((): void => {
+    if (liveRef.current) {
+      void BarcodeDetectionService.stopCameraDetection();
+      liveRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach(streamTrack => streamTrack.stop());
+    streamRef.current = null;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+  }, []);
+
+  const start = useCallback(async (preferences: CameraPreferences): Promise<void> => {
+    const generation = ++generationRef.current;
+    release();
+    pausedWhileHiddenRef.current = false;
+    setTrack(null);
+    setError('');
+    setStatus('requesting-permission');
+
+    const live = optionsRef.current.live;
+    try {
+      let nextTrack: MediaStreamTrack | null;
+      if (live) {
+        liveRef.current = live;
+        await BarcodeDetectionService.initializeCamera(live.containerId, videoConstraints(preferences), scanArea(preferences));
+        // A newer start or stop has already queued this camera's release
+        if (generation !== generationRef.current) {
+          return;
+        }
+        BarcodeDetectionService.startCameraDetection(
+          result => optionsRef.current.live?.onDetected(result),
+          live.filter
+        );
+        nextTrack = BarcodeDetectionService.getActiveTrack();
+      } else {
+        const stream = await navigator.mediaDevices.getUserMedia({ video: videoConstraints(preferences) });
+        if (generation !== generationRef.current) {
+          stream.getTracks().forEach(streamTrack => streamTrack.stop());
+          return;
+        }
+        if (!videoRef.current) {
+          stream.getTracks().forEach(streamTrack => streamTrack.stop());
+          throw new Error('Camera preview is not rendered');
+        }
+        streamRef.current = stream;
+        videoRef.current.srcObject = stream;
+        nextTrack = stream.getVideoTracks()[0] ?? null;
+      }
+      setTrack(nextTrack);
+      setStatus('active');
+    } catch (startError) {
+      if (generation !== generationRef.current) {
+        return;
+      }
+      console.error('Error starting camera:', startError);
+      release();
+      setStatus(DENIED_ERRORS.includes(errorName(startError)) ? 'denied' : 'error');
+      setError(describeCameraError(startError));
+    }
+  }, [release]);
+
+  const stop = useCallback((): void => {
+    generationRef.current += 1;
+    pausedWhileHiddenRef.current = false;
+    release();
+    setTrack(null);
+    setError('');
+    setStatus('idle');
+  }, [release]);
+
+  // A disabled track keeps the permission, so resuming needs no prompt
+  const setPaused = useCallback((paused: boolean): void => {
+    if (status !== (paused ? 'active' : 'paused')) {
+      return;
+    }
+    if (liveRef.current) {
+      if (paused) {
+        BarcodeDetectionService.pauseCameraDetection();
+      } else {
+        BarcodeDetectionService.resumeCameraDetection();
+      }
+    }
+    if (track) {
+      track.enabled = !paused;
+    }
+    setStatus(paused ? 'paused' : 'active');
+  }, [status, track]);
+
+  useEffect(() => {
+    const onVisibilityChange = (): void => {
+      if (document.hidden && status === 'active') {
+        pausedWhileHiddenRef.current = true;
+        setPaused(true);
+      } else if (!document.hidden && pausedWhileHiddenRef.current) {
+        pausedWhileHiddenRef.current = false;
+        setPaused(false);
+      }
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [status, setPaused]);
+
+  // Unplugging the camera ends the track without going through stop()
+  useEffect(() => {
+    if (!track) {
+      return;
+    }
+    const onEnded = (): void => {
+      generationRef.current += 1;
+      release();
+      setTrack(null);
+      setStatus('error');
+      setError('The camera was disconnected');
+    };
+    track.addEventListener('ended', onEnded);
+    return () => track.removeEventListener('ended', onEnded);
+  }, [track, release]);
+
+  useEffect(() => () => {
+    generationRef.current += 1;
+    release();
+  }, [release]);
+
+  /**
+   * The current frame on a new canvas, or null before the first frame arrives
+   */
+  const captureFrame = useCallback((): HTMLCanvasElement | null => {
+    const live = liveRef.current;
+    const video = live
+      ? document.querySelector<HTMLVideoElement>(`#${live.containerId} video`)
+      : videoRef.current;
+    if (!video?.videoWidth) {
+      return null;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  }, []);
+
+  return {
+    status,
+    error,
+    track,
+    videoRef,
+    /** The camera is open, whether or not it is paused */
+    isOpen: status === 'active' || status === 'paused',
+    start,
+    stop,
+    pause: () => {
+      pausedWhileHiddenRef.current = false;
+      setPaused(true);
+    },
+    resume: () => {
+      pausedWhileHiddenRef.current = false;
+      setPaused(false);
+    },
+    captureFrame,
+  };
+};
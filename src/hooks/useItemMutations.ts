@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { ScannedItem, UpdateItemRequest } from '../types';
+import { apiClient, describeApiError } from '../services/apiClient';
+
+/** How long a change can be undone; deletes are only sent once it has passed */
+export const UNDO_WINDOW_MS = 6000;
+
+export interface UndoToast {
+  id: number;
+  message: string;
+}
+
+interface UndoAction extends UndoToast {
+  undo: () => void;
+  /** Runs when the window closes without an undo */
+  commit?: () => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export const editableFields = (item: ScannedItem): Required<UpdateItemRequest> => ({
+  name: item.name,
+  price: item.price,
+  quantity: item.quantity ?? 1,
+  note: item.note ?? '',
+});
+
+const replaceItem = (id: number, next: ScannedItem) => (items: ScannedItem[]): ScannedItem[] =>
+  items.map(candidate => (candidate.id === id ? next : candidate));
+
+/**
+ * Optimistic edit and delete for a list of scanned items. Changes show
+ * immediately and roll back if the server refuses them; the latest change can
+ * be undone for a few seconds.
+ */
+export const useItemMutations = (setItems: Dispatch<SetStateAction<ScannedItem[]>>) => {
+  const [toast, setToast] = useState<UndoToast | null>(null);
+  const [error, setError] = useState<string>('');
+  const actionRef = useRef<UndoAction | null>(null);
+  const nextId = useRef(0);
+
+  // Close the current undo window, committing its change unless it was undone
+  const settle = useCallback((undo: boolean): void => {
+    const action = actionRef.current;
+    if (!action) {
+      return;
+    }
+    clearTimeout(action.timer);
+    actionRef.current = null;
+    setToast(null);
+    if (undo) {
+      action.undo();
+    } else {
+      action.commit?.();
+    }
+  }, []);
+
+  const offerUndo = useCallback((message: string, undo: () => void, commit?: () => void): void => {
+    settle(false);
+    const id = ++nextId.current;
+    actionRef.current = { id, message, undo, commit, timer: setTimeout(() => settle(false), UNDO_WINDOW_MS) };
+    setToast({ id, message });
+  }, [settle]);
+
+  // Pending deletes still go to the server if the list goes away
+  useEffect(() => () => settle(false), [settle]);
+
+  const sendUpdate = useCallback(async (
+    item: ScannedItem,
+    changes: UpdateItemRequest,
+    undoable: boolean
+  ): Promise<boolean> => {
+    setError('');
+    setItems(replaceItem(item.id, { ...item, ...changes }));
+    try {
+      const saved = await apiClient.updateItem(item.id, changes);
+      setItems(replaceItem(item.id, saved));
+      if (undoable) {
+        offerUndo(`Updated ${saved.name}`, () => void sendUpdate(saved, editableFields(item), false));
+      }
+      return true;
+    } catch (updateError) {
+      console.error('Error updating item:', updateError);
+      setItems(replaceItem(item.id, item));
+      setError(describeApiError(updateError, `Could not update ${item.name}`));
+      return false;
+    }
+  }, [offerUndo, setItems]);
+
+  const updateItem = useCallback(
+    (item: ScannedItem, changes: UpdateItemRequest): Promise<boolean> => sendUpdate(item, changes, true),
+    [sendUpdate]
+  );
+
+  const deleteItems = useCallback((items: ScannedItem[]): void => {
+    if (items.length === 0) {
+      return;
+    }
+    setError('');
+    const ids = new Set(items.map(item => item.id));
+    setItems(prev => prev.filter(item => !ids.has(item.id)));
+
+    const commit = async (): Promise<void> => {
+      const results = await Promise.allSettled(items.map(item => apiClient.deleteItem(item.id)));
+      const failed = items.filter((_, index) => results[index].status === 'rejected');
+      const firstFailure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (firstFailure) {
+        console.error('Error deleting items:', firstFailure.reason);
+        setItems(prev => [...failed, ...prev]);
+        setError(describeApiError(firstFailure.reason, `Could not delete ${failed.length} item(s)`));
+      }
+    };
+
+    offerUndo(
+      items.length === 1 ? `Deleted ${items[0].name}` : `Deleted ${items.length} items`,
+      () => setItems(prev => [...items, ...prev]),
+      () => void commit()
+    );
+  }, [offerUndo, setItems]);
+
+  return {
+    toast,
+    error,
+    updateItem,
+    deleteItems,
+    undo: () => settle(true),
+    dismissToast: () => settle(false),
+    clearError: () => setError(''),
+  };
+};
@@ -0,0 +1,84 @@
+import { useCallback, useRef, useState, type UIEvent } from 'react';
+
+/** Rows rendered beyond each edge of the viewport, so fast scrolling doesn't show gaps */
+const OVERSCAN_PX = 400;
+
+export interface VirtualList {
+  /** Index of the first row to render, and one past the last */
+  start: number;
+  end: number;
+  /** Space standing in for the rows above and below the rendered ones */
+  before: number;
+  after: number;
+  /** Ref and scroll handler for the scrolling element */
+  viewport: (element: HTMLElement | null) => (() => void) | undefined;
+  onScroll: (event: UIEvent<HTMLElement>) => void;
+  /** Ref for the rendered row with this key, so its real height replaces the estimate */
+  measure: (key: string) => (element: HTMLElement | null) => void;
+  scrollToTop: () => void;
+}
+
+/**
+ * Renders only the rows near the visible part of a scrolling viewport. Rows
+ * are measured every time they render (an edit form opening changes the
+ * height); rows not seen yet count as `estimatedHeight`.
+ */
+export const useVirtualList = (keys: string[], estimatedHeight: number): VirtualList => {
+  const heightsRef = useRef(new Map<string, number>());
+  const viewportRef = useRef<HTMLElement | null>(null);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [viewportHeight, setViewportHeight] = useState<number>(0);
+  const [, setMeasured] = useState<number>(0);
+
+  const viewport = useCallback((element: HTMLElement | null) => {
+    viewportRef.current = element;
+    if (!element) {
+      return undefined;
+    }
+    // A new viewport (e.g. after switching views) starts at its own scroll position
+    setScrollTop(element.scrollTop);
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    return () => {
+      observer.disconnect();
+      viewportRef.current = null;
+    };
+  }, []);
+
+  const onScroll = (event: UIEvent<HTMLElement>): void => setScrollTop(event.currentTarget.scrollTop);
+
+  const measure = (key: string) => (element: HTMLElement | null): void => {
+    const height = element?.offsetHeight ?? 0;
+    // Detached rows read as 0; keep their last height
+    if (height > 0 && heightsRef.current.get(key) !== height) {
+      heightsRef.current.set(key, height);
+      setMeasured(count => count + 1);
+    }
+  };
+
+  const scrollToTop = (): void => {
+    viewportRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  };
+
+  const heightOf = (key: string): number => heightsRef.current.get(key) ?? estimatedHeight;
+  const top = scrollTop - OVERSCAN_PX;
+  const bottom = scrollTop + viewportHeight + OVERSCAN_PX;
+
+  let index = 0;
+  let before = 0;
+  for (; index < keys.length && before + heightOf(keys[index]) < top; index++) {
+    before += heightOf(keys[index]);
+  }
+  const start = index;
+  for (let offset = before; index < keys.length && offset < bottom; index++) {
+    offset += heightOf(keys[index]);
+  }
+  const end = index;
+  let after = 0;
+  for (; index < keys.length; index++) {
+    after += heightOf(keys[index]);
+  }
+
+  return { start, end, before, after, viewport, onScroll, measure, scrollToTop };
+};
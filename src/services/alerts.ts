@@ -0,0 +1,60 @@
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext | null => {
+  if (typeof AudioContext === 'undefined') {
+    return null;
+  }
+  audioContext ??= new AudioContext();
+  // Autoplay policy suspends contexts created before a user gesture
+  if (audioContext.state === 'suspended') {
+    void audioContext.resume();
+  }
+  return audioContext;
+};
+
+export interface Tone {
+  frequency: number;
+  /** Seconds */
+  duration: number;
+  type: OscillatorType;
+  /** Seconds after the previous tone ends */
+  gap?: number;
+}
+
+/**
+ * Three short square-wave pulses, which read as "error" even in a noisy warehouse
+ */
+export const ERROR_TONES: Tone[] = [0, 1, 2].map(() => ({ frequency: 220, duration: 0.18, type: 'square', gap: 0.07 }));
+
+export const ERROR_VIBRATION = [200, 100, 200, 100, 200];
+
+/**
+ * Play tones one after another at `volume` (0-1). Silently does nothing
+ * where Web Audio is unavailable.
+ */
+export const playTones = (tones: Tone[], volume: number): void => {
+  const context = getAudioContext();
+  if (!context || tones.length === 0 || volume <= 0) {
+    return;
+  }
+  const gain = context.createGain();
+  gain.gain.value = Math.min(volume, 1);
+  gain.connect(context.destination);
+
+  let start = context.currentTime;
+  for (const tone of tones) {
+    const oscillator = context.createOscillator();
+    oscillator.type = tone.type;
+    oscillator.frequency.value = tone.frequency;
+    oscillator.connect(gain);
+    oscillator.start(start);
+    oscillator.stop(start + tone.duration);
+    start += tone.duration + (tone.gap ?? 0);
+  }
+};
+
+export const vibrate = (pattern: number[]): void => {
+  if (pattern.length > 0) {
+    navigator.vibrate?.(pattern);
+  }
+};
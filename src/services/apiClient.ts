@@ -0,0 +1,458 @@
+import type {
+  ApiResponse,
+  CameraScanRequest,
+  CreateProductRequest,
+  PickCompletion,
+  PickOrder,
+  Product,
+  ScannedItem,
+  ScanRequest,
+  StockList,
+  UpdateItemRequest,
+  VarianceReport
+} from '../types';
+
+const DEFAULT_BASE_URL = 'http://localhost:5000';
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export interface ApiClientConfig {
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export type ProductFetchResult =
+  | { notModified: true }
+  | { notModified: false; product: Product; etag?: string };
+
+/**
+ * Base class for every failure raised by the API client
+ */
+export class ApiError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * The request never produced a response (server down, DNS, CORS, offline)
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The request was aborted because it exceeded its timeout
+ */
+export class TimeoutError extends NetworkError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The server answered with a non-2xx status
+ */
+export class HttpError extends ApiError {
+  readonly status: number;
+  readonly body?: ApiResponse;
+
+  constructor(status: number, message: string, body?: ApiResponse) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * The server answered, but the body was not the expected ApiResponse shape
+ */
+export class MalformedResponseError extends ApiError {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'MalformedResponseError';
+    this.status = status;
+  }
+}
+
+/**
+ * True when the caller cancelled the request through its own AbortSignal
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Turn any error thrown by the client into a message suitable for the UI
+ */
+export const describeApiError = (error: unknown, fallback: string): string => {
+  if (error instanceof TimeoutError) {
+    return 'Server took too long to respond';
+  }
+  if (error instanceof NetworkError) {
+    return 'Network error - is the server running?';
+  }
+  if (error instanceof HttpError) {
+    return error.message;
+  }
+  return fallback;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isScannedItem = (value: unknown): value is ScannedItem =>
+  isRecord(value) &&
+  typeof value.id === 'number' &&
+  typeof value.barcode === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.price === 'number' &&
+  typeof value.timestamp === 'string' &&
+  (value.quantity === undefined || typeof value.quantity === 'number') &&
+  (value.note === undefined || typeof value.note === 'string');
+
+export const isProduct = (value: unknown): value is Product =>
+  isRecord(value) &&
+  typeof value.barcode === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.price === 'number' &&
+  (value.category === undefined || typeof value.category === 'string');
+
+export const isStockList = (value: unknown): value is StockList =>
+  isRecord(value) &&
+  typeof value.locationId === 'string' &&
+  Array.isArray(value.lines) &&
+  value.lines.every(line =>
+    isRecord(line) &&
+    typeof line.barcode === 'string' &&
+    typeof line.expectedQuantity === 'number' &&
+    (line.name === undefined || typeof line.name === 'string')
+  );
+
+export const isPickOrder = (value: unknown): value is PickOrder =>
+  isRecord(value) &&
+  typeof value.orderId === 'string' &&
+  Array.isArray(value.lines) &&
+  value.lines.every(line =>
+    isRecord(line) &&
+    typeof line.barcode === 'string' &&
+    typeof line.quantity === 'number' &&
+    (line.name === undefined || typeof line.name === 'string')
+  );
+
+const readEnvTimeout = (): number | undefined => {
+  const raw = import.meta.env.VITE_API_TIMEOUT_MS;
+  const parsed = raw ? Number(raw) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+export class ApiClient {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(config: ApiClientConfig = {}) {
+    this.baseUrl = (config.baseUrl ?? import.meta.env.VITE_API_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.timeoutMs = config.timeoutMs ?? readEnvTimeout() ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * POST /api/scan - record a barcode and get the matching item back
+   */
+  async scan(request: ScanRequest, options: RequestOptions = {}): Promise<ScannedItem> {
+    const body = await this.request('/api/scan', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    }, options);
+    return this.expectItem(body);
+  }
+
+  /**
+   * POST /api/scan-image - let the server detect the barcode in an uploaded image
+   */
+  async scanImage(file: File, options: RequestOptions = {}): Promise<ScannedItem> {
+    const formData = new FormData();
+    formData.append('image', file);
+
+    const body = await this.request('/api/scan-image', {
+      method: 'POST',
+      body: formData,
+    }, options);
+    return this.expectItem(body);
+  }
+
+  /**
+   * POST /api/scan-camera - let the server detect the barcode in a base64 camera frame
+   */
+  async scanCamera(request: CameraScanRequest, options: RequestOptions = {}): Promise<ScannedItem> {
+    const body = await this.request('/api/scan-camera', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    }, options);
+    return this.expectItem(body);
+  }
+
+  /**
+   * GET /api/items - every item scanned so far
+   */
+  async getItems(options: RequestOptions = {}): Promise<ScannedItem[]> {
+    const body = await this.request('/api/items', { method: 'GET' }, options);
+    if (!Array.isArray(body.data) || !body.data.every(isScannedItem)) {
+      throw new MalformedResponseError(200, 'Expected a list of scanned items');
+    }
+    return body.data;
+  }
+
+  /**
+   * DELETE /api/items - remove all items, resolving with the server's message
+   */
+  async clearItems(options: RequestOptions = {}): Promise<string | undefined> {
+    const body = await this.request('/api/items', { method: 'DELETE' }, options);
+    return body.message;
+  }
+
+  /**
+   * PATCH /api/items/:id - correct a scanned item, resolving with the stored item
+   */
+  async updateItem(id: number, changes: UpdateItemRequest, options: RequestOptions = {}): Promise<ScannedItem> {
+    const body = await this.request(`/api/items/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    }, options);
+    return this.expectItem(body);
+  }
+
+  /**
+   * DELETE /api/items/:id - remove one item, resolving with the server's message
+   */
+  async deleteItem(id: number, options: RequestOptions = {}): Promise<string | undefined> {
+    const body = await this.request(`/api/items/${id}`, { method: 'DELETE' }, options);
+    return body.message;
+  }
+
+  /**
+   * GET /api/products/:barcode - catalog entry, revalidated with If-None-Match
+   * when an ETag is given. A 404 (unknown barcode) surfaces as HttpError.
+   */
+  async getProduct(barcode: string, options: RequestOptions & { etag?: string } = {}): Promise<ProductFetchResult> {
+    const { response, body } = await this.send(`/api/products/${encodeURIComponent(barcode)}`, {
+      method: 'GET',
+      headers: options.etag ? { 'If-None-Match': options.etag } : undefined,
+    }, options);
+
+    if (response.status === 304) {
+      return { notModified: true };
+    }
+    if (!isProduct(body?.data)) {
+      throw new MalformedResponseError(response.status, 'Expected a product in response');
+    }
+    return { notModified: false, product: body.data, etag: response.headers.get('ETag') ?? undefined };
+  }
+
+  /**
+   * POST /api/products - add a barcode the catalog doesn't know yet
+   */
+  async createProduct(request: CreateProductRequest, options: RequestOptions = {}): Promise<Product> {
+    const body = await this.request('/api/products', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    }, options);
+    if (!isProduct(body.data)) {
+      throw new MalformedResponseError(200, 'Expected a product in response');
+    }
+    return body.data;
+  }
+
+  /**
+   * GET /api/locations/:id/stock - expected stock for a location, the baseline for a count
+   */
+  async getStockList(locationId: string, options: RequestOptions = {}): Promise<StockList> {
+    const body = await this.request(`/api/locations/${encodeURIComponent(locationId)}/stock`, { method: 'GET' }, options);
+    if (!isStockList(body.data)) {
+      throw new MalformedResponseError(200, 'Expected a stock list in response');
+    }
+    return body.data;
+  }
+
+  /**
+   * POST /api/locations/:id/stock-counts - submit a finished count's variance report
+   */
+  async submitVarianceReport(report: VarianceReport, options: RequestOptions = {}): Promise<string | undefined> {
+    const body = await this.request(`/api/locations/${encodeURIComponent(report.locationId)}/stock-counts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(report),
+    }, options);
+    return body.message;
+  }
+
+  /**
+   * GET /api/orders/:id - an order's lines to pick
+   */
+  async getOrder(orderId: string, options: RequestOptions = {}): Promise<PickOrder> {
+    const body = await this.request(`/api/orders/${encodeURIComponent(orderId)}`, { method: 'GET' }, options);
+    if (!isPickOrder(body.data)) {
+      throw new MalformedResponseError(200, 'Expected an order in response');
+    }
+    return body.data;
+  }
+
+  /**
+   * POST /api/orders/:id/complete - mark an order picked, with reasons for any shortages
+   */
+  async completeOrder(completion: PickCompletion, options: RequestOptions = {}): Promise<string | undefined> {
+    const body = await this.request(`/api/orders/${encodeURIComponent(completion.orderId)}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(completion),
+    }, options);
+    return body.message;
+  }
+
+  private expectItem(body: ApiResponse): ScannedItem {
+    if (!isScannedItem(body.data)) {
+      throw new MalformedResponseError(200, 'Expected a scanned item in response');
+    }
+    return body.data;
+  }
+
+  private async request(path: string, init: RequestInit, options: RequestOptions): Promise<ApiResponse> {
+    const { body } = await this.send(path, init, options);
+    if (!body) {
+      throw new MalformedResponseError(200, 'Response body was not valid JSON');
+    }
+    return body;
+  }
+
+  /**
+   * Perform the fetch and map failures onto the error classes. Resolves with
+   * the raw response for 2xx and 304 (conditional requests); the body is
+   * undefined when empty.
+   */
+  private async send(
+    path: string,
+    init: RequestInit,
+    options: RequestOptions
+  ): Promise<{ response: Response; body?: ApiResponse }> {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    const onCallerAbort = () => controller.abort();
+    if (options.signal) {
+      if (options.signal.aborted) {
+        controller.abort();
+      } else {
+        options.signal.addEventListener('abort', onCallerAbort, { once: true });
+      }
+    }
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}${path}`, { ...init, signal: controller.signal });
+      } catch (error) {
+        if (timedOut) {
+          throw new TimeoutError(timeoutMs);
+        }
+        if (isAbortError(error)) {
+          throw error;
+        }
+        throw new NetworkError(`Could not reach ${this.baseUrl}`, error);
+      }
+
+      if (response.status === 304) {
+        return { response };
+      }
+
+      const body = await this.parseBody(response, () => timedOut, timeoutMs);
+
+      if (!response.ok) {
+        throw new HttpError(
+          response.status,
+          body?.error || body?.message || `Request failed with status ${response.status}`,
+          body
+        );
+      }
+
+      return { response, body };
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onCallerAbort);
+    }
+  }
+
+  /**
+   * Parse the body as an ApiResponse, or undefined when it is not one.
+   * Error statuses may legitimately come back with an empty or HTML body.
+   */
+  private async parseBody(
+    response: Response,
+    hasTimedOut: () => boolean,
+    timeoutMs: number
+  ): Promise<ApiResponse | undefined> {
+    let text: string;
+    try {
+      text = await response.text();
+    } catch (error) {
+      if (hasTimedOut()) {
+        throw new TimeoutError(timeoutMs);
+      }
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new NetworkError('Connection lost while reading response', error);
+    }
+
+    if (!text) {
+      return undefined;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+
+    if (!isRecord(parsed)) {
+      if (response.ok) {
+        throw new MalformedResponseError(response.status, 'Response body was not an object');
+      }
+      return undefined;
+    }
+
+    if (
+      (parsed.error !== undefined && typeof parsed.error !== 'string') ||
+      (parsed.message !== undefined && typeof parsed.message !== 'string')
+    ) {
+      throw new MalformedResponseError(response.status, 'Response error/message fields must be strings');
+    }
+
+    return parsed as ApiResponse;
+  }
+}
+
+export const apiClient = new ApiClient();
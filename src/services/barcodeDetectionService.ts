@@ -1,35 +1,270 @@
-import Quagga from 'quagga';
-import jsQR from 'jsqr';
+import Quagga, { type QuaggaDetection, type QuaggaResult } from 'quagga';
+import { summarizeConfidence, type ScanConfidence, type ScanConfirmationFilter } from './scanConfirmation';
+import { DecoderChain, type DecoderCapability, type DecoderChainConfig, type EngineTiming } from './decoders/decoderChain';
+import { DecodeWorkerPool } from './decodeWorkerPool';
+import { validateForFormat } from './barcodeValidation';
+import { parseGs1, type Gs1ParseResult } from './gs1';
+import { BARCODE_FORMATS } from './decoders/formats';
+import { DEFAULT_PREPROCESS_CONFIG, preprocessVariants, type PreprocessConfig } from './imagePreprocessing';
+import { JsqrEngine, type JsqrEngineConfig } from './decoders/jsqrEngine';
+import { NativeEngine, type NativeEngineConfig } from './decoders/nativeEngine';
+import { characterErrors, QuaggaEngine, type QuaggaEngineConfig } from './decoders/quaggaEngine';
+import type { ScanArea } from './cameraControls';
+
+export interface Point {
+  x: number;
+  y: number;
+}
 
 export interface BarcodeDetectionResult {
   success: boolean;
   barcode?: string;
   error?: string;
   format?: string;
+  confidence?: ScanConfidence;
+  /** Set when a confirmation filter accepted the same barcode as the previous scan */
+  isRepeat?: boolean;
+  /** Corners of the barcode in the source image, clockwise from top-left where known */
+  polygon?: Point[];
+  /** Preprocessing variant the barcode was found in, when the original image failed */
+  transform?: string;
+  /** Application identifiers when the code carries GS1 element strings or a Digital Link */
+  gs1?: Gs1ParseResult;
+}
+
+/** Quagga's locator output for one live frame; points are [x, y] in video pixels */
+export interface ProcessedFrame {
+  /** Every region that looked like it might hold a barcode */
+  candidates: [number, number][][];
+  /** The region it settled on */
+  box?: [number, number][];
+  /** Set when the frame decoded */
+  barcode?: string;
 }
 
+export class ImageLoadError extends Error {
+  constructor() {
+    super('Could not load image');
+    this.name = 'ImageLoadError';
+  }
+}
+
+/**
+ * Decode the file into a bitmap; createImageBitmap does the heavy lifting off the main thread
+ */
+const loadImageBitmap = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImageLoadError();
+  }
+};
+
+export interface DecodeOptions {
+  /** Abort to cancel decoding, e.g. when the user picks another file */
+  signal?: AbortSignal;
+}
+
+export interface DecodeMetrics {
+  /** Time to decode the image file into a bitmap */
+  loadMs: number;
+  /** Time spent running the decoder chain */
+  decodeMs: number;
+  totalMs: number;
+  engines: EngineTiming[];
+  /** Present when the first attempt found nothing and the retry pipeline ran */
+  preprocessing?: PreprocessReport;
+}
+
+export interface PreprocessReport {
+  /** Variant that decoded, or null if none did */
+  transform: string | null;
+  attempts: number;
+  elapsedMs: number;
+  budgetExceeded: boolean;
+}
+
+export interface ImageDecodeOutcome {
+  results: BarcodeDetectionResult[];
+  metrics: DecodeMetrics;
+}
+
+export interface DecoderConfig {
+  chain?: Partial<DecoderChainConfig>;
+  preprocess?: Partial<PreprocessConfig>;
+  quagga?: Partial<QuaggaEngineConfig>;
+  jsqr?: Partial<JsqrEngineConfig>;
+  native?: Partial<NativeEngineConfig>;
+}
+
+const quaggaEngine = new QuaggaEngine();
+const jsqrEngine = new JsqrEngine();
+const nativeEngine = new NativeEngine();
+const decoderChain = new DecoderChain([nativeEngine, jsqrEngine, quaggaEngine]);
+decoderChain.setWorkerPool(DecodeWorkerPool.isSupported() ? new DecodeWorkerPool() : null);
+let preprocessConfig: PreprocessConfig = { ...DEFAULT_PREPROCESS_CONFIG };
+
+/**
+ * Drop results whose check digit or character set doesn't fit the format they
+ * were decoded as; 1D decoders occasionally report a misread as a hit
+ */
+const dropMisreads = (results: BarcodeDetectionResult[]): BarcodeDetectionResult[] =>
+  results.filter(result => {
+    if (!result.barcode || !result.format) {
+      return true;
+    }
+    const validation = validateForFormat(result.barcode, result.format);
+    if (!validation.valid) {
+      console.warn('⚠️ Discarding likely misread:', result.barcode, validation.reason);
+    }
+    return validation.valid;
+  });
+
+// Formats that can carry GS1 element strings; Quagga drops the leading FNC1 from Code 128
+const GS1_CARRIERS = new Set<string>([
+  BARCODE_FORMATS.code128,
+  BARCODE_FORMATS.dataMatrix,
+  BARCODE_FORMATS.qrCode,
+]);
+
+/**
+ * Parse GS1 data out of a decoded value; malformed GS1 is left as a plain code
+ */
+const parseGs1Result = (barcode: string, format?: string): Gs1ParseResult | undefined => {
+  try {
+    return parseGs1(barcode, { assumeGs1: format !== undefined && GS1_CARRIERS.has(format) }) ?? undefined;
+  } catch (error) {
+    console.warn('⚠️ Malformed GS1 data in', barcode, error);
+    return undefined;
+  }
+};
+
+const withGs1 = (result: BarcodeDetectionResult): BarcodeDetectionResult => {
+  const gs1 = result.barcode ? parseGs1Result(result.barcode, result.format) : undefined;
+  return gs1 ? { ...result, gs1 } : result;
+};
+
+const isAbort = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Retry decoding on preprocessed variants of the image until one yields a
+ * barcode, the time budget runs out, or the caller cancels
+ */
+const retryWithPreprocessing = async (
+  bitmap: ImageBitmap,
+  signal?: AbortSignal
+): Promise<{ results: BarcodeDetectionResult[]; engines: EngineTiming[]; report: PreprocessReport }> => {
+  const started = performance.now();
+  const budget = new AbortController();
+  const timer = setTimeout(() => budget.abort(), preprocessConfig.timeBudgetMs);
+  const onCallerAbort = () => budget.abort();
+  signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+  const engines: EngineTiming[] = [];
+  let attempts = 0;
+  const report = (transform: string | null): PreprocessReport => ({
+    transform,
+    attempts,
+    elapsedMs: performance.now() - started,
+    budgetExceeded: budget.signal.aborted && !signal?.aborted,
+  });
+
+  try {
+    for await (const variant of preprocessVariants(bitmap, preprocessConfig)) {
+      if (budget.signal.aborted) {
+        break;
+      }
+      attempts++;
+
+      const variantBitmap = await createImageBitmap(variant.canvas);
+      try {
+        const outcome = await decoderChain.decodeAll(variantBitmap, { signal: budget.signal });
+        engines.push(...outcome.engines);
+        const valid = dropMisreads(outcome.results);
+        if (valid.length > 0) {
+          console.log(`🔧 Decoded after preprocessing: ${variant.id}`);
+          const results = valid.map(result => ({
+            ...result,
+            polygon: result.polygon?.map(variant.toSource),
+            transform: variant.id,
+          }));
+          return { results, engines, report: report(variant.id) };
+        }
+      } catch (error) {
+        if (!isAbort(error)) {
+          throw error;
+        }
+        break;
+      } finally {
+        variantBitmap.close();
+      }
+    }
+
+    if (signal?.aborted) {
+      throw new DOMException('Decoding was cancelled', 'AbortError');
+    }
+    return { results: [], engines, report: report(null) };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onCallerAbort);
+  }
+};
+
 export class BarcodeDetectionService {
-  private static isInitialized = false;
+  private static cameraState: 'stopped' | 'ready' | 'running' | 'paused' = 'stopped';
+  /** Camera operations run one at a time; Quagga can't stop while it is still opening */
+  private static cameraTask: Promise<void> = Promise.resolve();
+  private static detectedHandler: ((data: QuaggaDetection) => void) | null = null;
+
+  private static enqueueCamera(task: () => void | Promise<void>): Promise<void> {
+    const run = this.cameraTask.then(task);
+    this.cameraTask = run.catch(() => undefined);
+    return run;
+  }
+
+  private static releaseCamera(): void {
+    if (this.detectedHandler) {
+      Quagga.offDetected(this.detectedHandler);
+      this.detectedHandler = null;
+    }
+    if (this.cameraState !== 'stopped') {
+      // stop() releases the camera, so the next start has to request it again
+      Quagga.stop();
+      this.cameraState = 'stopped';
+    }
+  }
 
   /**
-   * Initialize Quagga for camera barcode detection
+   * Initialize Quagga for camera barcode detection. Rejects with the
+   * getUserMedia error when the camera can't be opened; an already open
+   * camera is closed first so new constraints take effect.
    */
-  static async initializeCamera(elementId: string): Promise<boolean> {
-    try {
-      if (this.isInitialized) {
-        return true;
+  static initializeCamera(
+    elementId: string,
+    constraints: MediaTrackConstraints = { width: 640, height: 480, facingMode: 'environment' },
+    area?: ScanArea
+  ): Promise<void> {
+    return this.enqueueCamera(() => {
+      this.releaseCamera();
+      const target = document.querySelector<HTMLElement>(`#${elementId}`);
+      if (!target) {
+        throw new Error(`Camera container #${elementId} is not rendered`);
       }
 
-      return new Promise((resolve, reject) => {
+      return new Promise<void>((resolve, reject) => {
         Quagga.init({
           inputStream: {
             name: "Live",
             type: "LiveStream",
-            target: document.querySelector(`#${elementId}`) as HTMLElement,
-            constraints: {
-              width: 640,
-              height: 480,
-              facingMode: "environment" // Use back camera
+            target,
+            constraints,
+            // Quagga only locates and decodes inside this window, which also makes each frame cheaper
+            area: area && {
+              top: `${area.top}%`,
+              right: `${area.right}%`,
+              bottom: `${area.bottom}%`,
+              left: `${area.left}%`
             },
           },
           locator: {
@@ -39,41 +274,33 @@ export class BarcodeDetectionService {
           numOfWorkers: 2,
           frequency: 10,
           decoder: {
-            readers: [
-              "code_128_reader",
-              "ean_reader",
-              "ean_8_reader",
-              "code_39_reader",
-              "code_39_vin_reader",
-              "codabar_reader",
-              "upc_reader",
-              "upc_e_reader",
-              "i2of5_reader"
-            ]
+            readers: quaggaEngine.getConfig().cameraReaders
           },
           locate: true
-        }, (err: any) => {
+        }, (err?: unknown) => {
           if (err) {
             console.error('Quagga initialization error:', err);
             reject(err);
             return;
           }
           console.log("✅ Quagga initialized successfully");
-          this.isInitialized = true;
-          resolve(true);
+          this.cameraState = 'ready';
+          resolve();
         });
       });
-    } catch (error) {
-      console.error('Error initializing Quagga:', error);
-      return false;
-    }
+    });
   }
 
   /**
-   * Start camera barcode detection
+   * Start camera barcode detection. With a confirmation filter, only reads that
+   * pass its multi-frame/cooldown policy are reported. Starting again replaces
+   * the previous handler rather than adding another.
    */
-  static startCameraDetection(onDetected: (result: BarcodeDetectionResult) => void): void {
-    if (!this.isInitialized) {
+  static startCameraDetection(
+    onDetected: (result: BarcodeDetectionResult) => void,
+    filter?: ScanConfirmationFilter
+  ): void {
+    if (this.cameraState === 'stopped') {
       onDetected({
         success: false,
         error: 'Camera not initialized'
@@ -81,127 +308,115 @@ export class BarcodeDetectionService {
       return;
     }
 
-    Quagga.start();
-
-    Quagga.onDetected((data: any) => {
+    const handler = (data: QuaggaDetection): void => {
       const code = data.codeResult.code;
       const format = data.codeResult.format;
-      
-      console.log('📱 Barcode detected:', code, 'Format:', format);
-      
+      const errors = characterErrors(data);
+
+      const validation = validateForFormat(code, format);
+      if (!validation.valid) {
+        console.warn('⚠️ Ignoring likely misread:', code, validation.reason);
+        return;
+      }
+
+      if (!filter) {
+        console.log('📱 Barcode detected:', code, 'Format:', format);
+        onDetected({
+          success: true,
+          barcode: code,
+          format: format,
+          confidence: summarizeConfidence([errors]),
+          gs1: parseGs1Result(code, format)
+        });
+        return;
+      }
+
+      const decision = filter.push({ barcode: code, format, errors });
+      if (decision.status !== 'confirmed') {
+        return;
+      }
+
+      console.log('📱 Barcode confirmed:', code, 'Format:', format, 'Confidence:', decision.confidence.level);
       onDetected({
         success: true,
-        barcode: code,
-        format: format
+        barcode: decision.barcode,
+        format: decision.format,
+        confidence: decision.confidence,
+        isRepeat: decision.isRepeat,
+        gs1: parseGs1Result(decision.barcode, decision.format)
       });
-    });
+    };
+
+    if (this.detectedHandler) {
+      Quagga.offDetected(this.detectedHandler);
+    }
+    this.detectedHandler = handler;
+    Quagga.onDetected(handler);
+    Quagga.start();
+    this.cameraState = 'running';
   }
 
   /**
-   * Stop camera barcode detection
+   * Stop decoding without closing the camera
    */
-  static stopCameraDetection(): void {
-    if (this.isInitialized) {
-      Quagga.stop();
-      Quagga.offDetected();
+  static pauseCameraDetection(): void {
+    if (this.cameraState === 'running') {
+      Quagga.pause();
+      this.cameraState = 'paused';
+    }
+  }
+
+  static resumeCameraDetection(): void {
+    if (this.cameraState === 'paused') {
+      Quagga.start();
+      this.cameraState = 'running';
     }
   }
 
+  /**
+   * Stop camera barcode detection. A camera that is still opening is closed
+   * as soon as it has opened.
+   */
+  static stopCameraDetection(): Promise<void> {
+    return this.enqueueCamera(() => this.releaseCamera());
+  }
+
+  /**
+   * Locator output for every live frame, in video pixel coordinates, for drawing
+   * guidance over the preview. Returns an unsubscribe function.
+   */
+  static onFrameProcessed(listener: (frame: ProcessedFrame) => void): () => void {
+    const handler = (result?: QuaggaResult): void => {
+      listener({
+        candidates: result?.boxes ?? [],
+        box: result?.box,
+        barcode: result?.codeResult?.code
+      });
+    };
+    Quagga.onProcessed(handler);
+    return () => Quagga.offProcessed(handler);
+  }
+
+  /**
+   * The live camera track, for torch/zoom/focus controls
+   */
+  static getActiveTrack(): MediaStreamTrack | null {
+    return this.cameraState === 'stopped' ? null : Quagga.CameraAccess.getActiveTrack() ?? null;
+  }
+
   /**
    * Detect barcode from image file
    */
   static async detectFromImageFile(file: File): Promise<BarcodeDetectionResult> {
     try {
       console.log('📁 Detecting barcode from image file:', file.name);
-      
-      // Create image element
-      const img = new Image();
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        return {
-          success: false,
-          error: 'Could not get canvas context'
-        };
-      }
-
-      return new Promise((resolve) => {
-        img.onload = () => {
-          // Set canvas size to image size
-          canvas.width = img.width;
-          canvas.height = img.height;
-          
-          // Draw image to canvas
-          ctx.drawImage(img, 0, 0);
-          
-          // Get image data
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          
-          // Try QR code detection first
-          const qrCode = jsQR(imageData.data, imageData.width, imageData.height);
-          if (qrCode && qrCode.data) {
-            console.log('✅ QR Code detected:', qrCode.data);
-            resolve({
-              success: true,
-              barcode: qrCode.data,
-              format: 'QR_CODE'
-            });
-            return;
-          }
-          
-          // Try Quagga for traditional barcodes
-          Quagga.decodeSingle({
-            src: canvas.toDataURL(),
-            numOfWorkers: 0,
-            inputStream: {
-              size: 800
-            },
-            decoder: {
-              readers: [
-                "code_128_reader",
-                "ean_reader",
-                "ean_8_reader",
-                "code_39_reader",
-                "upc_reader",
-                "upc_e_reader"
-              ]
-            },
-            locate: true
-          }, (result: any) => {
-            if (result && result.codeResult) {
-              console.log('✅ Barcode detected:', result.codeResult.code, 'Format:', result.codeResult.format);
-              resolve({
-                success: true,
-                barcode: result.codeResult.code,
-                format: result.codeResult.format
-              });
-            } else {
-              console.log('❌ No barcode detected in image');
-              resolve({
-                success: false,
-                error: 'No barcode detected in image'
-              });
-            }
-          });
-        };
-        
-        img.onerror = () => {
-          resolve({
-            success: false,
-            error: 'Could not load image'
-          });
-        };
-        
-        // Load image
-        img.src = URL.createObjectURL(file);
-      });
-      
+      const results = await this.detectAllFromImageFile(file);
+      return results[0] ?? { success: false, error: 'No barcode detected in image' };
     } catch (error) {
       console.error('Error detecting barcode from image:', error);
       return {
         success: false,
-        error: 'Failed to process image'
+        error: error instanceof ImageLoadError ? error.message : 'Failed to process image'
       };
     }
   }
@@ -212,66 +427,8 @@ export class BarcodeDetectionService {
   static async detectFromCanvas(canvas: HTMLCanvasElement): Promise<BarcodeDetectionResult> {
     try {
       console.log('📷 Detecting barcode from canvas');
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        return {
-          success: false,
-          error: 'Could not get canvas context'
-        };
-      }
-
-      // Get image data
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      
-      // Try QR code detection first
-      const qrCode = jsQR(imageData.data, imageData.width, imageData.height);
-      if (qrCode && qrCode.data) {
-        console.log('✅ QR Code detected from canvas:', qrCode.data);
-        return {
-          success: true,
-          barcode: qrCode.data,
-          format: 'QR_CODE'
-        };
-      }
-      
-      // Try Quagga for traditional barcodes
-      return new Promise((resolve) => {
-        Quagga.decodeSingle({
-          src: canvas.toDataURL(),
-          numOfWorkers: 0,
-          inputStream: {
-            size: 800
-          },
-          decoder: {
-            readers: [
-              "code_128_reader",
-              "ean_reader",
-              "ean_8_reader",
-              "code_39_reader",
-              "upc_reader",
-              "upc_e_reader"
-            ]
-          },
-          locate: true
-        }, (result: any) => {
-          if (result && result.codeResult) {
-            console.log('✅ Barcode detected from canvas:', result.codeResult.code, 'Format:', result.codeResult.format);
-            resolve({
-              success: true,
-              barcode: result.codeResult.code,
-              format: result.codeResult.format
-            });
-          } else {
-            console.log('❌ No barcode detected in canvas');
-            resolve({
-              success: false,
-              error: 'No barcode detected in image'
-            });
-          }
-        });
-      });
-      
+      const results = await this.detectAllFromCanvas(canvas);
+      return results[0] ?? { success: false, error: 'No barcode detected in image' };
     } catch (error) {
       console.error('Error detecting barcode from canvas:', error);
       return {
@@ -281,11 +438,90 @@ export class BarcodeDetectionService {
     }
   }
 
+  /**
+   * Detect every barcode in an image file. Polygons are in the image's own pixel coordinates.
+   */
+  static async detectAllFromImageFile(file: File, options: DecodeOptions = {}): Promise<BarcodeDetectionResult[]> {
+    return (await this.decodeImageFile(file, options)).results;
+  }
+
+  /**
+   * Detect every barcode on a canvas using the configured decoder chain
+   */
+  static async detectAllFromCanvas(canvas: HTMLCanvasElement, options: DecodeOptions = {}): Promise<BarcodeDetectionResult[]> {
+    return (await this.decodeCanvas(canvas, options)).results;
+  }
+
+  /**
+   * Like detectAllFromImageFile, with per-engine timings. Decoding runs in the
+   * worker pool where supported; rejects with an AbortError when cancelled.
+   */
+  static async decodeImageFile(file: File, options: DecodeOptions = {}): Promise<ImageDecodeOutcome> {
+    const started = performance.now();
+    const bitmap = await loadImageBitmap(file);
+    return this.decodeBitmap(bitmap, started, options);
+  }
+
+  static async decodeCanvas(canvas: HTMLCanvasElement, options: DecodeOptions = {}): Promise<ImageDecodeOutcome> {
+    const started = performance.now();
+    const bitmap = await createImageBitmap(canvas);
+    return this.decodeBitmap(bitmap, started, options);
+  }
+
+  private static async decodeBitmap(bitmap: ImageBitmap, started: number, options: DecodeOptions): Promise<ImageDecodeOutcome> {
+    const loaded = performance.now();
+    try {
+      const first = await decoderChain.decodeAll(bitmap, options);
+      let results = dropMisreads(first.results);
+      const engines = [...first.engines];
+      let preprocessing: PreprocessReport | undefined;
+
+      if (results.length === 0 && preprocessConfig.enabled) {
+        const retry = await retryWithPreprocessing(bitmap, options.signal);
+        results = retry.results;
+        engines.push(...retry.engines);
+        preprocessing = retry.report;
+      }
+
+      const finished = performance.now();
+      const metrics: DecodeMetrics = {
+        loadMs: loaded - started,
+        decodeMs: finished - loaded,
+        totalMs: finished - started,
+        engines,
+        preprocessing,
+      };
+      results = results.map(withGs1);
+      console.log(`✅ ${results.length} barcode(s) detected in ${Math.round(metrics.totalMs)}ms:`, results.map(result => result.barcode));
+      return { results, metrics };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * Change engine priority/fallback, per-engine options (reader lists, formats)
+   * and the preprocessing retry pipeline
+   */
+  static configureDecoders(config: DecoderConfig): void {
+    if (config.chain) decoderChain.configure(config.chain);
+    if (config.preprocess) preprocessConfig = { ...preprocessConfig, ...config.preprocess };
+    if (config.quagga) quaggaEngine.configure(config.quagga);
+    if (config.jsqr) jsqrEngine.configure(config.jsqr);
+    if (config.native) nativeEngine.configure(config.native);
+  }
+
+  /**
+   * Which decoder engines this browser supports, in priority order
+   */
+  static getDecoderCapabilities(): Promise<DecoderCapability[]> {
+    return decoderChain.getCapabilities();
+  }
+
   /**
    * Clean up resources
    */
   static cleanup(): void {
-    this.stopCameraDetection();
-    this.isInitialized = false;
+    void this.stopCameraDetection();
   }
 }
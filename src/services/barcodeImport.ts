@@ -0,0 +1,273 @@
+import type { ScannedItem } from '../types';
+import { apiClient, describeApiError, isAbortError } from './apiClient';
+import { canonicalGtin, validateBarcode } from './barcodeValidation';
+import { csvLine } from './exportService';
+
+export type ImportDelimiter = ',' | ';' | '\t' | 'whitespace';
+
+export interface ParsedImportFile {
+  delimiter: ImportDelimiter;
+  rows: string[][];
+}
+
+export interface ImportMapping {
+  barcodeColumn: number;
+  /** null when every row counts as quantity 1 */
+  quantityColumn: number | null;
+  hasHeader: boolean;
+}
+
+export interface ImportRow {
+  /** 1-based row number, counting the header but not blank lines */
+  line: number;
+  barcode: string;
+  quantity: number;
+  /** Why the row won't be submitted */
+  error?: string;
+}
+
+export type ImportStatus = 'success' | 'failed' | 'invalid' | 'cancelled';
+
+export interface ImportResult {
+  line: number;
+  barcode: string;
+  quantity: number;
+  status: ImportStatus;
+  item?: ScannedItem;
+  message?: string;
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface ImportRunOptions {
+  /** Scans sent concurrently */
+  batchSize?: number;
+  /** Pause between batches so a big file doesn't flood the API */
+  delayMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ImportProgress, result: ImportResult) => void;
+}
+
+const DEFAULT_BATCH_SIZE = 5;
+const DEFAULT_BATCH_DELAY_MS = 500;
+
+// Header names carry no digits, so a "SKU-001" value isn't mistaken for one
+const BARCODE_HEADER = /^(barcode|ean|upc|gtin|code|sku)[^\d]*$/i;
+const QUANTITY_HEADER = /^(qty|quantity|count|amount|units)[^\d]*$/i;
+const QUANTITY_VALUE = /^\d{1,5}$/;
+
+/**
+ * Guess the delimiter from the first few lines. Tab and semicolon win ties
+ * with comma, since files using them often have commas as decimal points.
+ */
+const detectDelimiter = (text: string): ImportDelimiter => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10);
+  let best: ImportDelimiter = 'whitespace';
+  let bestLines = 0;
+  for (const candidate of ['\t', ';', ','] as const) {
+    const lines = sample.filter(line => line.includes(candidate)).length;
+    if (lines > bestLines) {
+      best = candidate;
+      bestLines = lines;
+    }
+  }
+  return best;
+};
+
+/**
+ * RFC 4180 records: quoted fields may contain the delimiter, doubled quotes and newlines
+ */
+const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/**
+ * Split a CSV, TSV or plain list of barcodes into rows of cells
+ */
+export const parseImportFile = (text: string, delimiter: ImportDelimiter = detectDelimiter(text)): ParsedImportFile => {
+  const content = text.replace(/^\uFEFF/, '');
+  const rows = delimiter === 'whitespace'
+    ? content.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(line => line.split(/\s+/))
+    : parseCsv(content, delimiter);
+  return { delimiter, rows };
+};
+
+/**
+ * Best guess at which columns hold the barcode and quantity, for the user to confirm
+ */
+export const guessMapping = (rows: string[][]): ImportMapping => {
+  const first = rows[0] ?? [];
+  const hasHeader = first.some(cell => BARCODE_HEADER.test(cell.trim()) || QUANTITY_HEADER.test(cell.trim())) ||
+    (rows.length > 1 && !first.some(cell => /\d/.test(cell)));
+  const data = (hasHeader ? rows.slice(1) : rows).slice(0, 20);
+  const width = Math.max(0, ...rows.map(row => row.length));
+  const columns = Array.from({ length: width }, (_, index) => index);
+
+  const headerIndex = (pattern: RegExp): number =>
+    hasHeader ? first.findIndex(cell => pattern.test(cell.trim())) : -1;
+
+  let barcodeColumn = headerIndex(BARCODE_HEADER);
+  if (barcodeColumn < 0) {
+    // Verified GTINs are the strongest hint; text with spaces (names, notes) and quantities count for nothing
+    const columnScore = (value: string): number => {
+      const validation = validateBarcode(value);
+      if (!validation.valid || /\s/.test(validation.value) || QUANTITY_VALUE.test(validation.value)) {
+        return 0;
+      }
+      return validation.checkDigitVerified ? 2 : 1;
+    };
+    const validCount = (column: number): number =>
+      data.reduce((score, row) => score + columnScore(row[column] ?? ''), 0);
+    barcodeColumn = columns.reduce((best, column) => validCount(column) > validCount(best) ? column : best, 0);
+  }
+
+  let quantityColumn: number | null = headerIndex(QUANTITY_HEADER);
+  if (quantityColumn < 0 || quantityColumn === barcodeColumn) {
+    quantityColumn = columns.find(column =>
+      column !== barcodeColumn && data.length > 0 && data.every(row => QUANTITY_VALUE.test((row[column] ?? '').trim()))
+    ) ?? null;
+  }
+
+  return { barcodeColumn, quantityColumn, hasHeader };
+};
+
+/**
+ * Apply the mapping and validate every row; invalid rows carry an error and are skipped on import
+ */
+export const buildImportRows = (rows: string[][], mapping: ImportMapping): ImportRow[] =>
+  rows.slice(mapping.hasHeader ? 1 : 0).map((row, index) => {
+    const line = index + (mapping.hasHeader ? 2 : 1);
+    const barcode = canonicalGtin((row[mapping.barcodeColumn] ?? '').trim());
+    const rawQuantity = mapping.quantityColumn === null ? '' : (row[mapping.quantityColumn] ?? '').trim();
+    const quantity = rawQuantity ? Number(rawQuantity) : 1;
+
+    const validation = validateBarcode(barcode);
+    if (!validation.valid) {
+      return { line, barcode, quantity, error: validation.reason ?? 'Invalid barcode' };
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return { line, barcode, quantity, error: `Quantity "${rawQuantity}" must be a whole number of at least 1` };
+    }
+    return { line, barcode, quantity };
+  });
+
+const pause = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    // One pause per batch, so don't leave a listener behind each time
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Submit valid rows through /api/scan in throttled batches. Results come back
+ * in file order; rows not sent before an abort are marked cancelled.
+ */
+export const runImport = async (rows: ImportRow[], options: ImportRunOptions = {}): Promise<ImportResult[]> => {
+  const { batchSize = DEFAULT_BATCH_SIZE, delayMs = DEFAULT_BATCH_DELAY_MS, signal, onProgress } = options;
+  const results: ImportResult[] = rows.map(row => ({
+    line: row.line,
+    barcode: row.barcode,
+    quantity: row.quantity,
+    status: row.error ? 'invalid' : 'cancelled',
+    message: row.error,
+  }));
+  const pending = rows.map((row, index) => ({ row, index })).filter(({ row }) => !row.error);
+  const progress: ImportProgress = { done: 0, total: pending.length, succeeded: 0, failed: 0 };
+
+  for (let start = 0; start < pending.length && !signal?.aborted; start += batchSize) {
+    if (start > 0) {
+      await pause(delayMs, signal);
+      if (signal?.aborted) {
+        break;
+      }
+    }
+
+    await Promise.all(pending.slice(start, start + batchSize).map(async ({ row, index }) => {
+      try {
+        const item = await apiClient.scan({
+          barcode: row.barcode,
+          source: 'import',
+          scannedAt: new Date().toISOString(),
+          quantity: row.quantity > 1 ? row.quantity : undefined,
+        }, { signal });
+        results[index] = { ...results[index], status: 'success', item, message: item.name };
+        progress.succeeded++;
+      } catch (error) {
+        if (isAbortError(error)) {
+          return;
+        }
+        results[index] = { ...results[index], status: 'failed', message: describeApiError(error, 'Scan failed') };
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress?.({ ...progress }, results[index]);
+    }));
+  }
+
+  return results;
+};
+
+/**
+ * Per-row outcome as CSV, for download
+ */
+export const importReportCsv = (results: ImportResult[]): string =>
+  [
+    csvLine(['Row', 'Barcode', 'Quantity', 'Status', 'Product', 'Message']),
+    ...results.map(result => csvLine([
+      String(result.line),
+      result.barcode,
+      String(result.quantity),
+      result.status,
+      result.item?.name ?? '',
+      result.status === 'success' ? '' : result.message ?? '',
+    ])),
+  ].join('\r\n') + '\r\n';
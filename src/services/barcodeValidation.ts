@@ -0,0 +1,444 @@
+import { BARCODE_FORMATS, type BarcodeFormat } from './decoders/formats';
+
+export interface Gs1Prefix {
+  prefix: string;
+  /** Member organisation or special use, e.g. "Poland" or "Restricted circulation" */
+  issuer: string;
+  /** In-store, coupon and similar numbers that aren't globally unique products */
+  restricted: boolean;
+}
+
+export interface BarcodeValidation {
+  valid: boolean;
+  /** Value with decoration removed, e.g. Code 39 start/stop asterisks */
+  value: string;
+  format?: BarcodeFormat;
+  /** Display name, which can be more specific than the format (ITF-14 vs i2of5) */
+  symbology?: string;
+  /** Why the value was rejected */
+  reason?: string;
+  /** UPC-E codes expanded to their UPC-A equivalent */
+  expanded?: string;
+  gs1Prefix?: Gs1Prefix;
+  /** False when the symbology has no check digit to verify */
+  checkDigitVerified: boolean;
+}
+
+export interface ValidationOptions {
+  /** Treat the last Code 39 character as a mod 43 check character */
+  code39CheckDigit?: boolean;
+}
+
+const DIGITS = /^\d+$/;
+const CODE39_CHARSET = /^[0-9A-Z\-. $/+%]+$/;
+// Printable ASCII, what Code 128 subset B can encode
+const CODE128_CHARSET = /^[\x20-\x7e]+$/;
+const CODABAR_DATA = /^[0-9\-$:/.+]+$/;
+const CODABAR_FRAMED = /^[A-D][0-9\-$:/.+]+[A-D]$/;
+const CODE39_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%';
+
+/**
+ * GS1 prefixes by first three digits of a GTIN-13, from the GS1 member
+ * organisation list. Ranges not listed here are unassigned.
+ */
+const GS1_PREFIXES: [number, number, string, boolean?][] = [
+  [0, 19, 'USA & Canada'],
+  [20, 29, 'Restricted circulation', true],
+  [30, 39, 'USA (drugs)'],
+  [40, 49, 'Restricted circulation', true],
+  [50, 59, 'Coupons', true],
+  [60, 139, 'USA & Canada'],
+  [200, 299, 'Restricted circulation', true],
+  [300, 379, 'France & Monaco'],
+  [380, 380, 'Bulgaria'],
+  [383, 383, 'Slovenia'],
+  [385, 385, 'Croatia'],
+  [387, 387, 'Bosnia and Herzegovina'],
+  [389, 389, 'Montenegro'],
+  [390, 390, 'Kosovo'],
+  [400, 440, 'Germany'],
+  [450, 459, 'Japan'],
+  [460, 469, 'Russia'],
+  [470, 470, 'Kyrgyzstan'],
+  [471, 471, 'Taiwan'],
+  [474, 474, 'Estonia'],
+  [475, 475, 'Latvia'],
+  [476, 476, 'Azerbaijan'],
+  [477, 477, 'Lithuania'],
+  [478, 478, 'Uzbekistan'],
+  [479, 479, 'Sri Lanka'],
+  [480, 480, 'Philippines'],
+  [481, 481, 'Belarus'],
+  [482, 482, 'Ukraine'],
+  [483, 483, 'Turkmenistan'],
+  [484, 484, 'Moldova'],
+  [485, 485, 'Armenia'],
+  [486, 486, 'Georgia'],
+  [487, 487, 'Kazakhstan'],
+  [488, 488, 'Tajikistan'],
+  [489, 489, 'Hong Kong'],
+  [490, 499, 'Japan'],
+  [500, 509, 'United Kingdom'],
+  [520, 521, 'Greece'],
+  [528, 528, 'Lebanon'],
+  [529, 529, 'Cyprus'],
+  [530, 530, 'Albania'],
+  [531, 531, 'North Macedonia'],
+  [535, 535, 'Malta'],
+  [539, 539, 'Ireland'],
+  [540, 549, 'Belgium & Luxembourg'],
+  [560, 560, 'Portugal'],
+  [569, 569, 'Iceland'],
+  [570, 579, 'Denmark'],
+  [590, 590, 'Poland'],
+  [594, 594, 'Romania'],
+  [599, 599, 'Hungary'],
+  [600, 601, 'South Africa'],
+  [603, 604, 'West Africa'],
+  [608, 609, 'Bahrain & Mauritius'],
+  [611, 631, 'Africa & Middle East'],
+  [640, 649, 'Finland'],
+  [690, 699, 'China'],
+  [700, 709, 'Norway'],
+  [729, 729, 'Israel'],
+  [730, 739, 'Sweden'],
+  [740, 746, 'Central America'],
+  [750, 750, 'Mexico'],
+  [754, 755, 'Canada'],
+  [759, 759, 'Venezuela'],
+  [760, 769, 'Switzerland & Liechtenstein'],
+  [770, 771, 'Colombia'],
+  [773, 773, 'Uruguay'],
+  [775, 775, 'Peru'],
+  [777, 777, 'Bolivia'],
+  [778, 779, 'Argentina'],
+  [780, 780, 'Chile'],
+  [784, 784, 'Paraguay'],
+  [786, 786, 'Ecuador'],
+  [789, 790, 'Brazil'],
+  [800, 839, 'Italy'],
+  [840, 849, 'Spain & Andorra'],
+  [850, 850, 'Cuba'],
+  [858, 858, 'Slovakia'],
+  [859, 859, 'Czech Republic'],
+  [860, 860, 'Serbia'],
+  [865, 865, 'Mongolia'],
+  [867, 867, 'North Korea'],
+  [868, 869, 'Turkey'],
+  [870, 879, 'Netherlands'],
+  [880, 880, 'South Korea'],
+  [883, 885, 'South-East Asia'],
+  [888, 888, 'Singapore'],
+  [890, 890, 'India'],
+  [893, 893, 'Vietnam'],
+  [896, 896, 'Pakistan'],
+  [899, 899, 'Indonesia'],
+  [900, 919, 'Austria'],
+  [930, 939, 'Australia'],
+  [940, 949, 'New Zealand'],
+  [950, 951, 'GS1 Global Office'],
+  [955, 955, 'Malaysia'],
+  [958, 958, 'Macau'],
+  [960, 969, 'GS1 Global Office (GTIN-8)'],
+  [977, 977, 'Serial publications (ISSN)'],
+  [978, 979, 'Books (ISBN)'],
+  [980, 980, 'Refund receipts', true],
+  [981, 984, 'Coupons', true],
+  [990, 999, 'Coupons', true],
+];
+
+/**
+ * GS1 mod 10 check digit for the digits before it (weights 3,1,3,... from the right)
+ */
+export const gs1CheckDigit = (digits: string): number => {
+  let sum = 0;
+  for (let i = digits.length - 1, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+/**
+ * One form per product, whatever length the GTIN was read at: it is padded
+ * to GTIN-14 and then cut to the shortest GS1 form its leading zeros allow
+ * (EAN-8, UPC-A, EAN-13, else GTIN-14), so every scanner submits the same
+ * code. Anything that isn't a GTIN with a valid check digit is returned as is.
+ */
+export const canonicalGtin = (value: string): string => {
+  if (!/^(\d{8}|\d{12,14})$/.test(value) || gs1CheckDigit(value.slice(0, -1)) !== Number(value[value.length - 1])) {
+    return value;
+  }
+  const gtin14 = value.padStart(14, '0');
+  if (gtin14.startsWith('000000')) {
+    return gtin14.slice(6);
+  }
+  if (gtin14.startsWith('00')) {
+    return gtin14.slice(2);
+  }
+  return gtin14.startsWith('0') ? gtin14.slice(1) : gtin14;
+};
+
+export const lookupGs1Prefix = (gtin13: string): Gs1Prefix | undefined => {
+  const prefix = gtin13.slice(0, 3);
+  const value = Number(prefix);
+  const range = GS1_PREFIXES.find(([start, end]) => value >= start && value <= end);
+  return range && { prefix, issuer: range[2], restricted: range[3] ?? false };
+};
+
+/**
+ * Expand the 8-digit form of a UPC-E code to its 12-digit UPC-A equivalent
+ */
+export const expandUpcE = (upcE: string): string => {
+  const system = upcE[0];
+  const [d1, d2, d3, d4, d5, d6] = upcE.slice(1, 7);
+  const check = upcE[7];
+
+  let body: string;
+  switch (d6) {
+    case '0':
+    case '1':
+    case '2':
+      body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+      break;
+    case '3':
+      body = `${d1}${d2}${d3}00000${d4}${d5}`;
+      break;
+    case '4':
+      body = `${d1}${d2}${d3}${d4}00000${d5}`;
+      break;
+    default:
+      body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+  return `${system}${body}${check}`;
+};
+
+const reject = (value: string, reason: string, format?: BarcodeFormat, symbology?: string): BarcodeValidation => ({
+  valid: false,
+  value,
+  format,
+  symbology,
+  reason,
+  checkDigitVerified: false,
+});
+
+/**
+ * Check digit and GS1 prefix for EAN/UPC/ITF-14 numbers. `gtin13` places the
+ * number in the GTIN-13 space the prefix table is keyed on.
+ */
+const validateGtin = (
+  value: string,
+  length: number,
+  format: BarcodeFormat,
+  symbology: string,
+  gtin13: (value: string) => string
+): BarcodeValidation => {
+  if (!DIGITS.test(value)) {
+    return reject(value, `${symbology} may only contain digits`, format, symbology);
+  }
+  if (value.length !== length) {
+    return reject(value, `${symbology} must be ${length} digits, got ${value.length}`, format, symbology);
+  }
+
+  const expected = gs1CheckDigit(value.slice(0, -1));
+  if (Number(value[length - 1]) !== expected) {
+    return reject(value, `${symbology} check digit should be ${expected}, not ${value[length - 1]}`, format, symbology);
+  }
+
+  const gs1Prefix = length === 8 && (value[0] === '0' || value[0] === '2')
+    // EAN-8 numbers starting 0 or 2 are in-store codes with no company prefix
+    ? { prefix: value.slice(0, 3), issuer: 'Restricted circulation', restricted: true }
+    : lookupGs1Prefix(gtin13(value));
+  if (!gs1Prefix) {
+    return reject(value, `GS1 prefix ${gtin13(value).slice(0, 3)} is not assigned`, format, symbology);
+  }
+  return { valid: true, value, format, symbology, gs1Prefix, checkDigitVerified: true };
+};
+
+const validateEan13 = (value: string) =>
+  validateGtin(value, 13, BARCODE_FORMATS.ean13, 'EAN-13', gtin => gtin);
+
+const validateEan8 = (value: string) =>
+  validateGtin(value, 8, BARCODE_FORMATS.ean8, 'EAN-8', gtin => gtin);
+
+const validateUpcA = (value: string) =>
+  validateGtin(value, 12, BARCODE_FORMATS.upcA, 'UPC-A', gtin => `0${gtin}`);
+
+// The leading packaging indicator isn't part of the company prefix
+const validateItf14 = (value: string) =>
+  validateGtin(value, 14, BARCODE_FORMATS.itf, 'ITF-14', gtin => gtin.slice(1));
+
+const validateUpcE = (value: string): BarcodeValidation => {
+  const symbology = 'UPC-E';
+  if (!DIGITS.test(value)) {
+    return reject(value, `${symbology} may only contain digits`, BARCODE_FORMATS.upcE, symbology);
+  }
+  if (value.length !== 8) {
+    return reject(value, `${symbology} must be 8 digits, got ${value.length}`, BARCODE_FORMATS.upcE, symbology);
+  }
+  if (value[0] !== '0' && value[0] !== '1') {
+    return reject(value, `${symbology} number system must be 0 or 1, not ${value[0]}`, BARCODE_FORMATS.upcE, symbology);
+  }
+
+  // UPC-E carries the check digit of its UPC-A expansion
+  const expanded = expandUpcE(value);
+  const upcA = validateUpcA(expanded);
+  return {
+    ...upcA,
+    value,
+    format: BARCODE_FORMATS.upcE,
+    symbology,
+    reason: upcA.reason?.replace('UPC-A', `${symbology} (expanded to ${expanded})`),
+    expanded,
+  };
+};
+
+/**
+ * Interleaved 2 of 5 encodes digit pairs; 14-digit codes are ITF-14 and carry a GS1 check digit
+ */
+const validateItf = (value: string): BarcodeValidation => {
+  if (value.length === 14) {
+    return validateItf14(value);
+  }
+  if (!DIGITS.test(value)) {
+    return reject(value, 'Interleaved 2 of 5 may only contain digits', BARCODE_FORMATS.itf, 'ITF');
+  }
+  if (value.length % 2 !== 0) {
+    return reject(value, 'Interleaved 2 of 5 must have an even number of digits', BARCODE_FORMATS.itf, 'ITF');
+  }
+  return { valid: true, value, format: BARCODE_FORMATS.itf, symbology: 'ITF', checkDigitVerified: false };
+};
+
+const validateCode39 = (raw: string, options: ValidationOptions): BarcodeValidation => {
+  const symbology = 'Code 39';
+  const value = raw.replace(/^\*(.*)\*$/, '$1');
+  if (!value || !CODE39_CHARSET.test(value)) {
+    const bad = [...value].find(char => !CODE39_ALPHABET.includes(char));
+    return reject(
+      value,
+      bad ? `Code 39 cannot encode "${bad}"` : 'Code 39 value is empty',
+      BARCODE_FORMATS.code39,
+      symbology
+    );
+  }
+
+  if (options.code39CheckDigit) {
+    const data = value.slice(0, -1);
+    const sum = [...data].reduce((total, char) => total + CODE39_ALPHABET.indexOf(char), 0);
+    const expected = CODE39_ALPHABET[sum % 43];
+    if (value[value.length - 1] !== expected) {
+      return reject(value, `Code 39 check character should be "${expected}"`, BARCODE_FORMATS.code39, symbology);
+    }
+  }
+  return {
+    valid: true,
+    value,
+    format: BARCODE_FORMATS.code39,
+    symbology,
+    checkDigitVerified: options.code39CheckDigit ?? false,
+  };
+};
+
+const validateCodabar = (value: string): BarcodeValidation => {
+  const symbology = 'Codabar';
+  // Start/stop characters are optional here: some decoders strip them
+  const framed = /^[A-D]/.test(value) || /[A-D]$/.test(value);
+  if (framed && !CODABAR_FRAMED.test(value)) {
+    return reject(value, 'Codabar needs A-D start and stop characters around 0-9 - $ : / . +', BARCODE_FORMATS.codabar, symbology);
+  }
+  if (!framed && !CODABAR_DATA.test(value)) {
+    return reject(value, 'Codabar may only contain 0-9 - $ : / . +', BARCODE_FORMATS.codabar, symbology);
+  }
+  return { valid: true, value, format: BARCODE_FORMATS.codabar, symbology, checkDigitVerified: false };
+};
+
+/**
+ * Validate a value decoded as `format`. Formats without rules here (Code 128,
+ * QR, ...) are accepted as-is, since they carry their own error checking.
+ */
+export const validateForFormat = (
+  value: string,
+  format: string,
+  options: ValidationOptions = {}
+): BarcodeValidation => {
+  switch (format) {
+    case BARCODE_FORMATS.ean13:
+      return validateEan13(value);
+    case BARCODE_FORMATS.ean8:
+      return validateEan8(value);
+    case BARCODE_FORMATS.upcA:
+      return validateUpcA(value);
+    case BARCODE_FORMATS.upcE:
+      return validateUpcE(value);
+    case BARCODE_FORMATS.itf:
+      return validateItf(value);
+    case BARCODE_FORMATS.code39:
+    case BARCODE_FORMATS.code39Vin:
+      return validateCode39(value, options);
+    case BARCODE_FORMATS.codabar:
+      return validateCodabar(value);
+    default:
+      return { valid: true, value, format: format as BarcodeFormat, checkDigitVerified: false };
+  }
+};
+
+/** Why an odd-length run of digits can't be a barcode, pointing at the nearest GTIN */
+const digitCountReason = (length: number): string => {
+  if (length < 10) {
+    return `${length} digits - an EAN-8 has 8`;
+  }
+  if (length < 13) {
+    return `${length} digits - a UPC-A has 12`;
+  }
+  return `${length} digits - a GTIN has at most 14`;
+};
+
+/**
+ * Validate typed or wedge-scanned text whose symbology isn't known. GTIN
+ * lengths (8, 12, 13 or 14 digits) get check digit and prefix rules, other
+ * runs of 7+ digits must be even-length ITF, and anything else, like internal
+ * SKUs, passes if a Code 128 label could carry it.
+ */
+export const validateBarcode = (input: string, options: ValidationOptions = {}): BarcodeValidation => {
+  const value = input.trim();
+  if (!value) {
+    return reject(value, 'Barcode is empty');
+  }
+
+  if (DIGITS.test(value)) {
+    switch (value.length) {
+      case 8: {
+        // Ambiguous with UPC-E; an in-store EAN-8 is the less likely reading
+        const ean8 = validateEan8(value);
+        if ((ean8.valid && !ean8.gs1Prefix?.restricted) || (value[0] !== '0' && value[0] !== '1')) {
+          return ean8;
+        }
+        const upcE = validateUpcE(value);
+        return upcE.valid ? upcE : ean8;
+      }
+      case 12:
+        return validateUpcA(value);
+      case 13:
+        return validateEan13(value);
+      case 14:
+        return validateItf14(value);
+    }
+    // Near a GTIN length it is most likely one with a digit dropped or added;
+    // only an even count can be Interleaved 2 of 5, the one other digit-only symbology
+    if (value.length >= 7) {
+      return value.length % 2 === 0 ? validateItf(value) : reject(value, digitCountReason(value.length));
+    }
+  }
+
+  if (CODABAR_FRAMED.test(value)) {
+    return validateCodabar(value);
+  }
+  // *...* is how Code 39 start/stop characters come through
+  if (/^\*.+\*$/.test(value)) {
+    return validateCode39(value, options);
+  }
+  if (!CODE128_CHARSET.test(value)) {
+    const bad = [...value].find(char => !CODE128_CHARSET.test(char));
+    return reject(value, `"${bad}" can't be carried by a barcode; only printable ASCII is supported`);
+  }
+  return { valid: true, value, checkDigitVerified: false };
+};
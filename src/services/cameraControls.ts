@@ -0,0 +1,164 @@
+/**
+ * Camera choice and the optional track capabilities (torch, zoom, focus)
+ * that mobile browsers expose through MediaStreamTrack.getCapabilities().
+ */
+
+export type ResolutionPreset = 'sd' | 'hd' | 'full-hd';
+
+export const RESOLUTION_PRESETS: Record<ResolutionPreset, { label: string; width: number; height: number }> = {
+  sd: { label: '640 × 480', width: 640, height: 480 },
+  hd: { label: '1280 × 720', width: 1280, height: 720 },
+  'full-hd': { label: '1920 × 1080', width: 1920, height: 1080 },
+};
+
+export type ScanRegionPreset = 'full' | 'strip' | 'square';
+
+/** Insets from each edge of the frame, in percent */
+export interface ScanArea {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export const SCAN_REGION_LABELS: Record<ScanRegionPreset, string> = {
+  full: 'Full frame',
+  strip: 'Strip (1D barcodes)',
+  square: 'Square (QR / Data Matrix)',
+};
+
+export interface CameraPreferences {
+  /** undefined picks the back camera by facing mode */
+  deviceId?: string;
+  resolution: ResolutionPreset;
+  /** Part of the frame that is decoded; only used by the live Quagga scanner */
+  region: ScanRegionPreset;
+}
+
+interface NumberRange {
+  min: number;
+  max: number;
+  step?: number;
+}
+
+/** The capability members lib.dom doesn't declare yet */
+interface ExtendedCapabilities {
+  torch?: boolean;
+  zoom?: NumberRange;
+  focusMode?: string[];
+}
+
+interface ExtendedSettings {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+}
+
+/**
+ * What the current track supports; a missing member means the control isn't available
+ */
+export interface TrackControls {
+  torch?: boolean;
+  zoom?: NumberRange & { value: number };
+  focusMode?: { modes: string[]; value?: string };
+}
+
+export type TrackSetting =
+  | { torch: boolean }
+  | { zoom: number }
+  | { focusMode: string };
+
+const STORAGE_KEY = 'barcode-scanner.camera';
+
+const DEFAULT_PREFERENCES: CameraPreferences = { resolution: 'sd', region: 'full' };
+
+export const loadCameraPreferences = (defaults: CameraPreferences = DEFAULT_PREFERENCES): CameraPreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<CameraPreferences> | null;
+    return {
+      deviceId: typeof stored?.deviceId === 'string' ? stored.deviceId : defaults.deviceId,
+      resolution: stored?.resolution && stored.resolution in RESOLUTION_PRESETS ? stored.resolution : defaults.resolution,
+      region: stored?.region && stored.region in SCAN_REGION_LABELS ? stored.region : defaults.region,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveCameraPreferences = (preferences: CameraPreferences): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn('Could not save camera preferences:', error);
+  }
+};
+
+/**
+ * getUserMedia video constraints for the preferences. A remembered device that
+ * has since been unplugged falls back to any camera rather than failing.
+ */
+export const videoConstraints = (preferences: CameraPreferences): MediaTrackConstraints => {
+  const { width, height } = RESOLUTION_PRESETS[preferences.resolution];
+  return {
+    ...(preferences.deviceId ? { deviceId: preferences.deviceId } : { facingMode: 'environment' }),
+    width: { ideal: width },
+    height: { ideal: height },
+  };
+};
+
+/**
+ * The decoding window for a region preset. The square is sized from the
+ * requested resolution's aspect ratio so it stays square on screen.
+ */
+export const scanArea = (preferences: CameraPreferences): ScanArea => {
+  switch (preferences.region) {
+    case 'strip':
+      return { top: 35, right: 10, bottom: 35, left: 10 };
+    case 'square': {
+      const { width, height } = RESOLUTION_PRESETS[preferences.resolution];
+      const side = 60;
+      const inset = (100 - side * (height / width)) / 2;
+      return { top: (100 - side) / 2, right: inset, bottom: (100 - side) / 2, left: inset };
+    }
+    default:
+      return { top: 0, right: 0, bottom: 0, left: 0 };
+  }
+};
+
+/**
+ * Video inputs. Labels stay empty until the user has granted camera access once.
+ */
+export const listVideoInputs = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+export const readTrackControls = (track: MediaStreamTrack): TrackControls => {
+  // Firefox has no getCapabilities
+  if (typeof track.getCapabilities !== 'function') {
+    return {};
+  }
+  const capabilities = track.getCapabilities() as ExtendedCapabilities;
+  const settings = track.getSettings() as ExtendedSettings;
+  const controls: TrackControls = {};
+
+  if (capabilities.torch) {
+    controls.torch = settings.torch ?? false;
+  }
+  if (capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min) {
+    controls.zoom = { ...capabilities.zoom, value: settings.zoom ?? capabilities.zoom.min };
+  }
+  if (capabilities.focusMode && capabilities.focusMode.length > 1) {
+    controls.focusMode = { modes: capabilities.focusMode, value: settings.focusMode };
+  }
+  return controls;
+};
+
+/**
+ * Change one capability on a live track
+ */
+export const applyTrackSetting = (track: MediaStreamTrack, setting: TrackSetting): Promise<void> =>
+  track.applyConstraints({ advanced: [setting as MediaTrackConstraintSet] });
@@ -0,0 +1,142 @@
+import type { CreateProductRequest, Product, ScannedItem } from '../types';
+import { apiClient, HttpError, NetworkError } from './apiClient';
+import { STORES, promisifyRequest, withStore } from './indexedDb';
+
+/** Cached products are served without asking the server for this long */
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface CachedProduct {
+  barcode: string;
+  product: Product;
+  etag?: string;
+  /** When the server last confirmed this entry (epoch ms) */
+  fetchedAt: number;
+}
+
+export type CatalogLookup =
+  | { status: 'found'; product: Product; fromCache: boolean; stale: boolean }
+  | { status: 'unknown' }
+  | { status: 'unavailable'; error: unknown };
+
+/**
+ * Client-side product catalog: barcode -> product, cached in IndexedDB so a
+ * scan can show the product immediately and keep working offline.
+ */
+export class CatalogService {
+  private ttlMs: number;
+  /** Lookups already in flight, so a burst of scans asks the server once */
+  private inFlight = new Map<string, Promise<CatalogLookup>>();
+
+  constructor(ttlMs: number = DEFAULT_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Cached entry regardless of age, or undefined. Never touches the network.
+   */
+  async getCached(barcode: string): Promise<CachedProduct | undefined> {
+    try {
+      return await withStore(STORES.products, 'readonly', store =>
+        promisifyRequest(store.get(barcode) as IDBRequest<CachedProduct | undefined>)
+      );
+    } catch (error) {
+      console.error('Error reading product cache:', error);
+      return undefined;
+    }
+  }
+
+  isFresh(entry: CachedProduct): boolean {
+    return Date.now() - entry.fetchedAt < this.ttlMs;
+  }
+
+  /**
+   * Fresh cache hit, else ask the server (revalidating with the ETag we have).
+   * When the server can't be reached a stale entry is still returned.
+   */
+  lookup(barcode: string, options: { force?: boolean } = {}): Promise<CatalogLookup> {
+    const pending = this.inFlight.get(barcode);
+    if (pending) {
+      return pending;
+    }
+
+    const lookup = this.resolve(barcode, options.force ?? false).finally(() => {
+      this.inFlight.delete(barcode);
+    });
+    this.inFlight.set(barcode, lookup);
+    return lookup;
+  }
+
+  /**
+   * Add a product the server doesn't know and cache it
+   */
+  async createProduct(request: CreateProductRequest): Promise<Product> {
+    const product = await apiClient.createProduct(request);
+    await this.store({ barcode: product.barcode, product, fetchedAt: Date.now() });
+    return product;
+  }
+
+  /**
+   * Keep the cache warm with what /api/scan returned. There is no ETag here,
+   * so the next lookup after the TTL does a full fetch.
+   */
+  async rememberScan(item: ScannedItem): Promise<void> {
+    const cached = await this.getCached(item.barcode);
+    const product: Product = { ...cached?.product, barcode: item.barcode, name: item.name, price: item.price };
+    const unchanged = cached && cached.product.name === product.name && cached.product.price === product.price;
+    await this.store({
+      barcode: item.barcode,
+      product,
+      etag: unchanged ? cached.etag : undefined,
+      fetchedAt: Date.now(),
+    });
+  }
+
+  private async resolve(barcode: string, force: boolean): Promise<CatalogLookup> {
+    const cached = await this.getCached(barcode);
+    if (cached && !force && this.isFresh(cached)) {
+      return { status: 'found', product: cached.product, fromCache: true, stale: false };
+    }
+
+    try {
+      const result = await apiClient.getProduct(barcode, { etag: cached?.etag });
+      if (result.notModified) {
+        if (!cached) {
+          // We sent no If-None-Match, so a 304 here is a server bug
+          return { status: 'unavailable', error: new Error('Unexpected 304 for uncached product') };
+        }
+        await this.store({ ...cached, fetchedAt: Date.now() });
+        return { status: 'found', product: cached.product, fromCache: true, stale: false };
+      }
+
+      await this.store({ barcode, product: result.product, etag: result.etag, fetchedAt: Date.now() });
+      return { status: 'found', product: result.product, fromCache: false, stale: false };
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 404) {
+        await this.remove(barcode);
+        return { status: 'unknown' };
+      }
+      if (cached && (error instanceof NetworkError || error instanceof HttpError)) {
+        return { status: 'found', product: cached.product, fromCache: true, stale: true };
+      }
+      return { status: 'unavailable', error };
+    }
+  }
+
+  private async store(entry: CachedProduct): Promise<void> {
+    try {
+      await withStore(STORES.products, 'readwrite', store => promisifyRequest(store.put(entry)));
+    } catch (error) {
+      console.error('Error writing product cache:', error);
+    }
+  }
+
+  private async remove(barcode: string): Promise<void> {
+    try {
+      await withStore(STORES.products, 'readwrite', store => promisifyRequest(store.delete(barcode)));
+    } catch (error) {
+      console.error('Error writing product cache:', error);
+    }
+  }
+}
+
+export const catalogService = new CatalogService();
@@ -0,0 +1,182 @@
+import type { BarcodeDetectionResult } from './barcodeDetectionService';
+import type { DecoderEngineId } from './decoders/types';
+
+export interface DecodeWorkerRequest {
+  id: number;
+  engineId: DecoderEngineId;
+  config: object;
+  bitmap: ImageBitmap;
+}
+
+export type DecodeWorkerResponse =
+  | { id: number; results: BarcodeDetectionResult[]; workerMs: number; error?: undefined }
+  | { id: number; error: string; workerMs: number; results?: undefined };
+
+export interface WorkerDecodeOutcome {
+  results: BarcodeDetectionResult[];
+  /** Time spent decoding inside the worker */
+  workerMs: number;
+  /** Time from submission to answer, including queueing and transfer */
+  totalMs: number;
+}
+
+/**
+ * The worker itself failed (script error, crash); the task may be retried on the main thread
+ */
+export class WorkerFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkerFailedError';
+  }
+}
+
+interface PoolTask {
+  request: DecodeWorkerRequest;
+  submittedAt: number;
+  resolve: (outcome: WorkerDecodeOutcome) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+const abortError = (): DOMException => new DOMException('Decoding was cancelled', 'AbortError');
+
+/**
+ * A small pool of decode workers. Bitmaps are transferred, not copied, and a
+ * cancelled task terminates its worker since jsQR cannot be interrupted.
+ */
+export class DecodeWorkerPool {
+  private readonly size: number;
+  private idle: Worker[] = [];
+  private running = new Map<Worker, PoolTask>();
+  private queue: PoolTask[] = [];
+  private nextId = 1;
+
+  constructor(size: number = Math.max(1, Math.min(2, (navigator.hardwareConcurrency || 2) - 1))) {
+    this.size = size;
+  }
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap !== 'undefined';
+  }
+
+  /**
+   * Decode `bitmap` with one engine in a worker. The bitmap is transferred and
+   * unusable afterwards.
+   */
+  run(engineId: DecoderEngineId, config: object, bitmap: ImageBitmap, signal?: AbortSignal): Promise<WorkerDecodeOutcome> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        bitmap.close();
+        reject(abortError());
+        return;
+      }
+
+      const task: PoolTask = {
+        request: { id: this.nextId++, engineId, config, bitmap },
+        submittedAt: performance.now(),
+        resolve,
+        reject,
+        signal,
+      };
+
+      if (signal) {
+        task.onAbort = () => this.cancel(task);
+        signal.addEventListener('abort', task.onAbort, { once: true });
+      }
+
+      this.queue.push(task);
+      this.pump();
+    });
+  }
+
+  terminate(): void {
+    this.queue.forEach(task => this.settle(task, () => task.reject(abortError())));
+    this.queue = [];
+    this.running.forEach((task, worker) => {
+      worker.terminate();
+      this.settle(task, () => task.reject(abortError()));
+    });
+    this.running.clear();
+    this.idle.forEach(worker => worker.terminate());
+    this.idle = [];
+  }
+
+  private pump(): void {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.running.size < this.size ? this.spawn() : null);
+      if (!worker) {
+        return;
+      }
+      const task = this.queue.shift() as PoolTask;
+      this.running.set(worker, task);
+      worker.postMessage(task.request, [task.request.bitmap]);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(new URL('../workers/decodeWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<DecodeWorkerResponse>) => {
+      const task = this.running.get(worker);
+      if (!task || task.request.id !== event.data.id) {
+        return;
+      }
+      this.running.delete(worker);
+      this.idle.push(worker);
+
+      const response = event.data;
+      this.settle(task, () => {
+        if (response.error !== undefined) {
+          task.reject(new Error(response.error));
+        } else {
+          task.resolve({
+            results: response.results,
+            workerMs: response.workerMs,
+            totalMs: performance.now() - task.submittedAt,
+          });
+        }
+      });
+      this.pump();
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      worker.terminate();
+      if (task) {
+        this.settle(task, () => task.reject(new WorkerFailedError(event.message || 'Decode worker crashed')));
+      }
+      this.pump();
+    };
+
+    return worker;
+  }
+
+  private cancel(task: PoolTask): void {
+    const queued = this.queue.indexOf(task);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+      task.request.bitmap.close();
+    } else {
+      this.running.forEach((runningTask, worker) => {
+        if (runningTask === task) {
+          worker.terminate();
+          this.running.delete(worker);
+        }
+      });
+    }
+    this.settle(task, () => task.reject(abortError()));
+    this.pump();
+  }
+
+  private settle(task: PoolTask, finish: () => void): void {
+    if (task.onAbort) {
+      task.signal?.removeEventListener('abort', task.onAbort);
+    }
+    finish();
+  }
+}
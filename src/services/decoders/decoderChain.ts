@@ -0,0 +1,199 @@
+import type { BarcodeDetectionResult } from '../barcodeDetectionService';
+import { WorkerFailedError, type DecodeWorkerPool } from '../decodeWorkerPool';
+import { dedupeResults } from './geometry';
+import type { DecoderEngine, DecoderEngineId } from './types';
+
+export interface DecoderChainConfig {
+  /** Engines to try, highest priority first; unsupported ones are skipped */
+  priority: DecoderEngineId[];
+  /**
+   * When an engine finds nothing, let lower-priority engines covering the same
+   * formats try as well instead of trusting the empty result
+   */
+  fallbackOnEmpty: boolean;
+}
+
+export const DEFAULT_DECODER_CHAIN_CONFIG: DecoderChainConfig = {
+  priority: ['native', 'jsqr', 'quagga'],
+  fallbackOnEmpty: true,
+};
+
+export interface EngineTiming {
+  engine: DecoderEngineId;
+  /** Wall-clock time for this engine, including worker queueing and transfer */
+  durationMs: number;
+  /** Time spent decoding inside the worker, when it ran in one */
+  workerMs?: number;
+  inWorker: boolean;
+  found: number;
+  skipped?: 'unsupported' | 'covered';
+  error?: string;
+}
+
+export interface ChainOutcome {
+  results: BarcodeDetectionResult[];
+  engines: EngineTiming[];
+}
+
+export interface ChainDecodeOptions {
+  signal?: AbortSignal;
+}
+
+export interface DecoderCapability {
+  id: DecoderEngineId;
+  label: string;
+  supported: boolean;
+  formats: string[];
+}
+
+const isAbort = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new DOMException('Decoding was cancelled', 'AbortError');
+  }
+};
+
+/**
+ * Stop waiting for work that cannot itself be interrupted (Quagga, native detect)
+ */
+const raceAbort = <T>(work: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) {
+    return work;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Decoding was cancelled', 'AbortError'));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    work.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Runs engines in priority order. An engine is skipped when every format it
+ * decodes is already covered by a higher-priority engine that succeeded, so
+ * with a capable native detector the JS decoders never run.
+ */
+export class DecoderChain {
+  private engines = new Map<DecoderEngineId, DecoderEngine>();
+  private config: DecoderChainConfig;
+  private pool: DecodeWorkerPool | null = null;
+
+  constructor(engines: DecoderEngine[], config: Partial<DecoderChainConfig> = {}) {
+    engines.forEach(engine => this.engines.set(engine.id, engine));
+    this.config = { ...DEFAULT_DECODER_CHAIN_CONFIG, ...config };
+  }
+
+  configure(config: Partial<DecoderChainConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Run worker-capable engines in this pool instead of on the main thread
+   */
+  setWorkerPool(pool: DecodeWorkerPool | null): void {
+    this.pool = pool;
+  }
+
+  async getCapabilities(): Promise<DecoderCapability[]> {
+    return Promise.all(this.orderedEngines().map(async engine => {
+      const supported = await engine.isSupported();
+      return {
+        id: engine.id,
+        label: engine.label,
+        supported,
+        formats: supported ? await engine.supportedFormats() : [],
+      };
+    }));
+  }
+
+  async decodeAll(bitmap: ImageBitmap, options: ChainDecodeOptions = {}): Promise<ChainOutcome> {
+    const { signal } = options;
+    const covered = new Set<string>();
+    const results: BarcodeDetectionResult[] = [];
+    const engines: EngineTiming[] = [];
+    let canvas: HTMLCanvasElement | null = null;
+
+    // Main-thread engines share one canvas, drawn only if one of them runs
+    const mainThreadCanvas = (): HTMLCanvasElement => {
+      if (!canvas) {
+        canvas = document.createElement('canvas');
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+      }
+      return canvas;
+    };
+
+    for (const engine of this.orderedEngines()) {
+      throwIfAborted(signal);
+
+      if (!(await engine.isSupported())) {
+        engines.push({ engine: engine.id, durationMs: 0, inWorker: false, found: 0, skipped: 'unsupported' });
+        continue;
+      }
+
+      const formats = await engine.supportedFormats();
+      if (formats.length > 0 && formats.every(format => covered.has(format))) {
+        engines.push({ engine: engine.id, durationMs: 0, inWorker: false, found: 0, skipped: 'covered' });
+        continue;
+      }
+
+      const started = performance.now();
+      const inWorker = Boolean(this.pool && engine.runsInWorker);
+      try {
+        let found: BarcodeDetectionResult[];
+        let workerMs: number | undefined;
+
+        if (inWorker && this.pool) {
+          try {
+            // Each worker gets its own copy: transferring would neuter our bitmap
+            const copy = await createImageBitmap(bitmap);
+            const outcome = await this.pool.run(engine.id, engine.getConfig(), copy, signal);
+            found = outcome.results;
+            workerMs = outcome.workerMs;
+          } catch (error) {
+            if (!(error instanceof WorkerFailedError)) {
+              throw error;
+            }
+            console.warn(`${engine.label} worker failed, decoding on main thread:`, error);
+            found = await raceAbort(engine.decodeAll(mainThreadCanvas()), signal);
+          }
+        } else {
+          found = await raceAbort(engine.decodeAll(mainThreadCanvas()), signal);
+        }
+
+        results.push(...found);
+        engines.push({ engine: engine.id, durationMs: performance.now() - started, workerMs, inWorker, found: found.length });
+        if (found.length > 0 || !this.config.fallbackOnEmpty) {
+          formats.forEach(format => covered.add(format));
+        }
+      } catch (error) {
+        if (isAbort(error)) {
+          throw error;
+        }
+        // A broken engine must not hide what the others can find
+        console.warn(`${engine.label} failed, falling back:`, error);
+        engines.push({
+          engine: engine.id,
+          durationMs: performance.now() - started,
+          inWorker,
+          found: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { results: dedupeResults(results), engines };
+  }
+
+  private orderedEngines(): DecoderEngine[] {
+    return this.config.priority
+      .map(id => this.engines.get(id))
+      .filter((engine): engine is DecoderEngine => Boolean(engine));
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Canonical format names reported in BarcodeDetectionResult.format. 1D names
+ * follow Quagga's codeResult.format, 2D names follow the original jsQR label.
+ */
+export const BARCODE_FORMATS = {
+  code128: 'code_128',
+  code39: 'code_39',
+  code39Vin: 'code_39_vin',
+  code93: 'code_93',
+  codabar: 'codabar',
+  ean13: 'ean_13',
+  ean8: 'ean_8',
+  upcA: 'upc_a',
+  upcE: 'upc_e',
+  itf: 'i2of5',
+  qrCode: 'QR_CODE',
+  dataMatrix: 'DATA_MATRIX',
+  aztec: 'AZTEC',
+  pdf417: 'PDF417',
+} as const;
+
+export type BarcodeFormat = typeof BARCODE_FORMATS[keyof typeof BARCODE_FORMATS];
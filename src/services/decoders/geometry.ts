@@ -0,0 +1,26 @@
+import type { BarcodeDetectionResult, Point } from '../barcodeDetectionService';
+
+/** Two reads of the same code closer than this (in image pixels) are the same physical barcode */
+const DUPLICATE_DISTANCE_PX = 40;
+
+export const centroid = (polygon: Point[]): Point => ({
+  x: polygon.reduce((sum, point) => sum + point.x, 0) / polygon.length,
+  y: polygon.reduce((sum, point) => sum + point.y, 0) / polygon.length,
+});
+
+/**
+ * Drop results that are the same physical barcode read twice, either from
+ * overlapping Quagga boxes or by two engines
+ */
+export const dedupeResults = (results: BarcodeDetectionResult[]): BarcodeDetectionResult[] =>
+  results.filter((result, index) => !results.slice(0, index).some(earlier => {
+    if (earlier.barcode !== result.barcode) {
+      return false;
+    }
+    if (!earlier.polygon || !result.polygon) {
+      return true;
+    }
+    const a = centroid(earlier.polygon);
+    const b = centroid(result.polygon);
+    return Math.hypot(a.x - b.x, a.y - b.y) < DUPLICATE_DISTANCE_PX;
+  }));
@@ -0,0 +1,111 @@
+import jsQR from 'jsqr';
+import type { BarcodeDetectionResult } from '../barcodeDetectionService';
+import { summarizeConfidence } from '../scanConfirmation';
+import { BARCODE_FORMATS } from './formats';
+import { centroid } from './geometry';
+import type { DecodeSource, DecoderEngine } from './types';
+
+export interface JsqrEngineConfig {
+  /** jsQR only reports one code per pass, so found codes are masked out and the image rescanned */
+  maxCodes: number;
+  /** Also look for light-on-dark codes; roughly doubles decode time */
+  inversionAttempts: 'dontInvert' | 'onlyInvert' | 'attemptBoth' | 'invertFirst';
+}
+
+export const DEFAULT_JSQR_CONFIG: JsqrEngineConfig = {
+  maxCodes: 10,
+  inversionAttempts: 'attemptBoth',
+};
+
+/**
+ * Scratch canvas to paint over found codes; OffscreenCanvas so this also works in a worker
+ */
+const createWorkCanvas = (width: number, height: number): DecodeSource => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export class JsqrEngine implements DecoderEngine<JsqrEngineConfig> {
+  readonly id = 'jsqr';
+  readonly label = 'jsQR';
+  readonly runsInWorker = true;
+  private config: JsqrEngineConfig;
+
+  constructor(config: Partial<JsqrEngineConfig> = {}) {
+    this.config = { ...DEFAULT_JSQR_CONFIG, ...config };
+  }
+
+  configure(config: Partial<JsqrEngineConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): JsqrEngineConfig {
+    return { ...this.config };
+  }
+
+  async isSupported(): Promise<boolean> {
+    return typeof OffscreenCanvas !== 'undefined' || typeof document !== 'undefined';
+  }
+
+  async supportedFormats(): Promise<string[]> {
+    return [BARCODE_FORMATS.qrCode];
+  }
+
+  /**
+   * Find every QR code on the canvas by repeatedly decoding and painting over each hit
+   */
+  async decodeAll(source: DecodeSource): Promise<BarcodeDetectionResult[]> {
+    const work = createWorkCanvas(source.width, source.height);
+    const ctx = work.getContext('2d', { willReadFrequently: true }) as
+      CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) {
+      return [];
+    }
+    ctx.drawImage(source, 0, 0);
+
+    const results: BarcodeDetectionResult[] = [];
+    for (let i = 0; i < this.config.maxCodes; i++) {
+      const imageData = ctx.getImageData(0, 0, work.width, work.height);
+      const qrCode = jsQR(imageData.data, imageData.width, imageData.height, {
+        inversionAttempts: this.config.inversionAttempts
+      });
+      if (!qrCode || !qrCode.data) {
+        break;
+      }
+
+      const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } = qrCode.location;
+      const polygon = [topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner]
+        .map(({ x, y }) => ({ x, y }));
+      results.push({
+        success: true,
+        barcode: qrCode.data,
+        format: BARCODE_FORMATS.qrCode,
+        polygon,
+        // Reed-Solomon already corrected any damage, so a decoded QR code is trustworthy
+        confidence: summarizeConfidence([[0]])
+      });
+
+      // Mask slightly beyond the corners so the finder patterns cannot be found again
+      const center = centroid(polygon);
+      ctx.fillStyle = '#fff';
+      ctx.beginPath();
+      polygon.forEach((point, index) => {
+        const x = center.x + (point.x - center.x) * 1.15;
+        const y = center.y + (point.y - center.y) * 1.15;
+        if (index === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.closePath();
+      ctx.fill();
+    }
+    return results;
+  }
+}
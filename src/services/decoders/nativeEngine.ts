@@ -0,0 +1,142 @@
+import type { BarcodeDetectionResult } from '../barcodeDetectionService';
+import { BARCODE_FORMATS } from './formats';
+import type { DecodeSource, DecoderEngine } from './types';
+
+// The Shape Detection API is not in TypeScript's DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+  cornerPoints: { x: number; y: number }[];
+}
+
+interface NativeBarcodeDetector {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+export interface NativeEngineConfig {
+  /** Shape Detection API format names to ask the browser for */
+  formats: string[];
+}
+
+export const DEFAULT_NATIVE_CONFIG: NativeEngineConfig = {
+  formats: [
+    'code_128',
+    'code_39',
+    'code_93',
+    'codabar',
+    'ean_13',
+    'ean_8',
+    'upc_a',
+    'upc_e',
+    'itf',
+    'qr_code',
+    'data_matrix',
+    'aztec',
+    'pdf417'
+  ],
+};
+
+/**
+ * Shape Detection API format name -> canonical format name
+ */
+const NATIVE_FORMATS: Record<string, string> = {
+  code_128: BARCODE_FORMATS.code128,
+  code_39: BARCODE_FORMATS.code39,
+  code_93: BARCODE_FORMATS.code93,
+  codabar: BARCODE_FORMATS.codabar,
+  ean_13: BARCODE_FORMATS.ean13,
+  ean_8: BARCODE_FORMATS.ean8,
+  upc_a: BARCODE_FORMATS.upcA,
+  upc_e: BARCODE_FORMATS.upcE,
+  itf: BARCODE_FORMATS.itf,
+  qr_code: BARCODE_FORMATS.qrCode,
+  data_matrix: BARCODE_FORMATS.dataMatrix,
+  aztec: BARCODE_FORMATS.aztec,
+  pdf417: BARCODE_FORMATS.pdf417,
+};
+
+const getDetectorClass = (): NativeBarcodeDetectorConstructor | undefined =>
+  (globalThis as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+
+/**
+ * The browser's built-in BarcodeDetector (Chrome on Android/macOS/ChromeOS).
+ * Much faster than the JS decoders and covers both 1D and 2D codes.
+ */
+export class NativeEngine implements DecoderEngine<NativeEngineConfig> {
+  readonly id = 'native';
+  readonly label = 'Native BarcodeDetector';
+  readonly runsInWorker = true;
+  private config: NativeEngineConfig;
+  private detector: NativeBarcodeDetector | null = null;
+  private formatsPromise: Promise<string[]> | null = null;
+
+  constructor(config: Partial<NativeEngineConfig> = {}) {
+    this.config = { ...DEFAULT_NATIVE_CONFIG, ...config };
+  }
+
+  configure(config: Partial<NativeEngineConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.detector = null;
+    this.formatsPromise = null;
+  }
+
+  getConfig(): NativeEngineConfig {
+    return { ...this.config };
+  }
+
+  async isSupported(): Promise<boolean> {
+    return (await this.availableNativeFormats()).length > 0;
+  }
+
+  async supportedFormats(): Promise<string[]> {
+    return (await this.availableNativeFormats()).map(format => NATIVE_FORMATS[format]);
+  }
+
+  async decodeAll(source: DecodeSource): Promise<BarcodeDetectionResult[]> {
+    const detector = await this.getDetector();
+    if (!detector) {
+      return [];
+    }
+
+    const barcodes = await detector.detect(source);
+    return barcodes.map(barcode => ({
+      success: true,
+      barcode: barcode.rawValue,
+      format: NATIVE_FORMATS[barcode.format] ?? barcode.format,
+      polygon: barcode.cornerPoints.map(({ x, y }) => ({ x, y }))
+    }));
+  }
+
+  /**
+   * Configured formats the platform can actually decode. Some browsers expose
+   * BarcodeDetector but support no formats (e.g. desktop Linux).
+   */
+  private availableNativeFormats(): Promise<string[]> {
+    if (!this.formatsPromise) {
+      const Detector = getDetectorClass();
+      this.formatsPromise = Detector
+        ? Detector.getSupportedFormats()
+          .then(available => this.config.formats.filter(format => available.includes(format) && NATIVE_FORMATS[format]))
+          .catch(() => [])
+        : Promise.resolve([]);
+    }
+    return this.formatsPromise;
+  }
+
+  private async getDetector(): Promise<NativeBarcodeDetector | null> {
+    if (!this.detector) {
+      const Detector = getDetectorClass();
+      const formats = await this.availableNativeFormats();
+      if (!Detector || formats.length === 0) {
+        return null;
+      }
+      this.detector = new Detector({ formats });
+    }
+    return this.detector;
+  }
+}
@@ -0,0 +1,132 @@
+import Quagga, { type QuaggaDetection, type QuaggaResult } from 'quagga';
+import type { BarcodeDetectionResult } from '../barcodeDetectionService';
+import { summarizeConfidence } from '../scanConfirmation';
+import { BARCODE_FORMATS } from './formats';
+import type { DecodeSource, DecoderEngine } from './types';
+
+export interface QuaggaEngineConfig {
+  /** Readers used for the live camera stream */
+  cameraReaders: string[];
+  /** Readers used when decoding still images */
+  imageReaders: string[];
+  /** Longer side Quagga scales still images to before locating barcodes */
+  imageDecodeSize: number;
+  /** Quagga's own web workers for still images; 0 decodes on the main thread */
+  imageWorkers: number;
+}
+
+export const DEFAULT_QUAGGA_CONFIG: QuaggaEngineConfig = {
+  cameraReaders: [
+    "code_128_reader",
+    "ean_reader",
+    "ean_8_reader",
+    "code_39_reader",
+    "code_39_vin_reader",
+    "codabar_reader",
+    "upc_reader",
+    "upc_e_reader",
+    "i2of5_reader"
+  ],
+  imageReaders: [
+    "code_128_reader",
+    "ean_reader",
+    "ean_8_reader",
+    "code_39_reader",
+    "upc_reader",
+    "upc_e_reader"
+  ],
+  imageDecodeSize: 800,
+  imageWorkers: 1,
+};
+
+/**
+ * Format each Quagga reader reports in codeResult.format
+ */
+const READER_FORMATS: Record<string, string> = {
+  code_128_reader: BARCODE_FORMATS.code128,
+  ean_reader: BARCODE_FORMATS.ean13,
+  ean_8_reader: BARCODE_FORMATS.ean8,
+  code_39_reader: BARCODE_FORMATS.code39,
+  code_39_vin_reader: BARCODE_FORMATS.code39Vin,
+  code_93_reader: BARCODE_FORMATS.code93,
+  codabar_reader: BARCODE_FORMATS.codabar,
+  upc_reader: BARCODE_FORMATS.upcA,
+  upc_e_reader: BARCODE_FORMATS.upcE,
+  i2of5_reader: BARCODE_FORMATS.itf,
+};
+
+/**
+ * Per-character error values from a Quagga decode (start/stop markers carry none)
+ */
+export const characterErrors = (data: QuaggaDetection): number[] =>
+  (data.codeResult.decodedCodes ?? [])
+    .map(decoded => decoded.error)
+    .filter((error): error is number => typeof error === 'number');
+
+export class QuaggaEngine implements DecoderEngine<QuaggaEngineConfig> {
+  readonly id = 'quagga';
+  readonly label = 'QuaggaJS';
+  /** Quagga needs the DOM to load images, so it runs here and spawns its own workers */
+  readonly runsInWorker = false;
+  private config: QuaggaEngineConfig;
+
+  constructor(config: Partial<QuaggaEngineConfig> = {}) {
+    this.config = { ...DEFAULT_QUAGGA_CONFIG, ...config };
+  }
+
+  configure(config: Partial<QuaggaEngineConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): QuaggaEngineConfig {
+    return { ...this.config };
+  }
+
+  async isSupported(): Promise<boolean> {
+    return typeof document !== 'undefined';
+  }
+
+  async supportedFormats(): Promise<string[]> {
+    return this.config.imageReaders.map(reader => READER_FORMATS[reader]).filter(Boolean);
+  }
+
+  /**
+   * Decode every 1D barcode on the canvas using Quagga's multiple-result mode
+   */
+  decodeAll(source: DecodeSource): Promise<BarcodeDetectionResult[]> {
+    const { imageDecodeSize, imageReaders, imageWorkers } = this.config;
+    const scale = Math.max(source.width, source.height) / imageDecodeSize;
+
+    // Quagga scales to imageDecodeSize anyway; shrinking first keeps the data URL small
+    const small = document.createElement('canvas');
+    small.width = Math.max(1, Math.round(source.width / scale));
+    small.height = Math.max(1, Math.round(source.height / scale));
+    small.getContext('2d')?.drawImage(source, 0, 0, small.width, small.height);
+
+    return new Promise((resolve) => {
+      Quagga.decodeSingle({
+        src: small.toDataURL(),
+        numOfWorkers: imageWorkers,
+        inputStream: {
+          size: imageDecodeSize
+        },
+        decoder: {
+          readers: imageReaders,
+          multiple: true
+        },
+        locate: true
+      }, (result?: QuaggaResult | QuaggaResult[]) => {
+        const barcodes = Array.isArray(result) ? result : result ? [result] : [];
+        resolve(barcodes
+          .filter((barcode): barcode is QuaggaDetection => Boolean(barcode.codeResult?.code))
+          .map(barcode => ({
+            success: true,
+            barcode: barcode.codeResult.code,
+            format: barcode.codeResult.format,
+            polygon: barcode.box?.map(([x, y]) => ({ x: x * scale, y: y * scale })),
+            confidence: summarizeConfidence([characterErrors(barcode)])
+          })));
+      });
+    });
+  }
+}
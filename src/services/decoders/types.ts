@@ -0,0 +1,24 @@
+import type { BarcodeDetectionResult } from '../barcodeDetectionService';
+
+export type DecoderEngineId = 'native' | 'jsqr' | 'quagga';
+
+/** Anything an engine can read pixels from, on the main thread or in a worker */
+export type DecodeSource = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * A barcode decoding backend. Engines report every code they find on a
+ * canvas; polygons are in the canvas' pixel coordinates.
+ */
+export interface DecoderEngine<TConfig extends object = object> {
+  readonly id: DecoderEngineId;
+  readonly label: string;
+  /** Whether decodeAll works on an OffscreenCanvas inside a worker */
+  readonly runsInWorker: boolean;
+  /** Whether this browser can run the engine at all */
+  isSupported(): Promise<boolean>;
+  /** Canonical format names (see formats.ts) this engine is configured to decode */
+  supportedFormats(): Promise<string[]>;
+  getConfig(): TConfig;
+  configure(config: Partial<TConfig>): void;
+  decodeAll(source: DecodeSource): Promise<BarcodeDetectionResult[]>;
+}
@@ -0,0 +1,175 @@
+import type { ScannedItem } from '../types';
+import type { ScanSession } from './scanSessions';
+import { buildXlsx, type XlsxCell } from './xlsxWriter';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type ExportColumn = 'barcode' | 'name' | 'price' | 'timestamp' | 'format' | 'quantity';
+
+export const EXPORT_COLUMNS: Record<ExportColumn, string> = {
+  barcode: 'Barcode',
+  name: 'Name',
+  price: 'Price',
+  timestamp: 'Timestamp',
+  format: 'Format',
+  quantity: 'Quantity',
+};
+
+export interface ExportRow {
+  barcode: string;
+  name: string;
+  price: number;
+  timestamp: string;
+  format?: string;
+  quantity: number;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  /** CSV only */
+  delimiter: ',' | ';' | '\t';
+  /** BCP 47 locale for CSV decimals, e.g. "de-DE" writes 1,50; undefined uses the browser's */
+  locale?: string;
+  /** Inclusive range on the row timestamp */
+  from?: Date;
+  to?: Date;
+}
+
+export const itemsToRows = (items: ScannedItem[]): ExportRow[] =>
+  items.map(item => ({
+    barcode: item.barcode,
+    name: item.name,
+    price: item.price,
+    timestamp: item.timestamp,
+    format: item.format,
+    quantity: item.quantity ?? 1,
+  }));
+
+export const sessionToRows = (session: ScanSession): ExportRow[] =>
+  session.lines.map(line => ({
+    barcode: line.barcode,
+    name: line.name,
+    price: line.price,
+    timestamp: line.lastScannedAt,
+    format: line.format,
+    quantity: line.quantity,
+  }));
+
+/**
+ * Rows whose timestamp falls in the range. Rows with an unparseable
+ * timestamp are only kept when no range is set.
+ */
+export const filterByDate = (rows: ExportRow[], from?: Date, to?: Date): ExportRow[] => {
+  if (!from && !to) {
+    return rows;
+  }
+  return rows.filter(row => {
+    const time = Date.parse(row.timestamp);
+    if (Number.isNaN(time)) {
+      return false;
+    }
+    return (!from || time >= from.getTime()) && (!to || time <= to.getTime());
+  });
+};
+
+/**
+ * Spreadsheets run cells starting with these as formulas, so a scanned
+ * "=HYPERLINK(...)" would execute on open. Plain numbers like "-1.50" are left alone.
+ */
+const neutralizeFormula = (value: string): string =>
+  /^[=+\-@\t\r]/.test(value) && !/^[-+]?\d+([.,]\d+)?$/.test(value) ? `'${value}` : value;
+
+const escapeCsv = (raw: string, delimiter: string): string => {
+  const value = neutralizeFormula(raw);
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * One CSV record, quoting values that contain the delimiter, quotes or newlines
+ * and defusing ones a spreadsheet would read as a formula
+ */
+export const csvLine = (values: string[], delimiter: string = ','): string =>
+  values.map(value => escapeCsv(value, delimiter)).join(delimiter);
+
+const toCsv = (rows: ExportRow[], options: ExportOptions): string => {
+  const decimals = new Intl.NumberFormat(options.locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+    useGrouping: false,
+  });
+  const cell = (row: ExportRow, column: ExportColumn): string => {
+    switch (column) {
+      case 'price':
+        return decimals.format(row.price);
+      case 'quantity':
+        return String(row.quantity);
+      default:
+        return row[column] ?? '';
+    }
+  };
+
+  const lines = [
+    options.columns.map(column => EXPORT_COLUMNS[column]),
+    ...rows.map(row => options.columns.map(column => cell(row, column))),
+  ].map(values => csvLine(values, options.delimiter));
+
+  // BOM so Excel opens the file as UTF-8
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+const toJson = (rows: ExportRow[], columns: ExportColumn[]): string =>
+  JSON.stringify(
+    rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null]))),
+    null,
+    2
+  );
+
+const toXlsx = (rows: ExportRow[], columns: ExportColumn[]): Blob => {
+  const sheet: XlsxCell[][] = [
+    columns.map(column => EXPORT_COLUMNS[column]),
+    ...rows.map(row => columns.map(column => row[column])),
+  ];
+  return buildXlsx(sheet, 'Scanned items');
+};
+
+/**
+ * Filter and serialise rows. Returns the file contents with a suggested name.
+ */
+export const buildExport = (rows: ExportRow[], options: ExportOptions): { blob: Blob; filename: string; count: number } => {
+  const filtered = filterByDate(rows, options.from, options.to);
+  const stamp = new Date().toISOString().slice(0, 10);
+  const baseName = `scanned-items-${stamp}`;
+
+  switch (options.format) {
+    case 'csv':
+      return {
+        blob: new Blob([toCsv(filtered, options)], { type: 'text/csv;charset=utf-8' }),
+        filename: `${baseName}.csv`,
+        count: filtered.length,
+      };
+    case 'json':
+      return {
+        blob: new Blob([toJson(filtered, options.columns)], { type: 'application/json' }),
+        filename: `${baseName}.json`,
+        count: filtered.length,
+      };
+    case 'xlsx':
+      return { blob: toXlsx(filtered, options.columns), filename: `${baseName}.xlsx`, count: filtered.length };
+  }
+};
+
+/**
+ * Hand a blob to the browser as a file download
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
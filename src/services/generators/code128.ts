@@ -0,0 +1,145 @@
+import { BARCODE_FORMATS } from '../decoders/formats';
+import { BarcodeEncodeError, type LinearSymbol } from './types';
+
+/** Bar/space widths of every symbol value; 106 is the stop pattern */
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+type CodeSet = 'A' | 'B' | 'C';
+
+const START: Record<CodeSet, number> = { A: 103, B: 104, C: 105 };
+const SWITCH_TO: Record<CodeSet, number> = { A: 101, B: 100, C: 99 };
+const STOP = 106;
+
+const isDigit = (char: string | undefined): boolean => char !== undefined && char >= '0' && char <= '9';
+const isControl = (code: number): boolean => code < 32;
+const isLowercase = (code: number): boolean => code >= 96;
+
+const digitRun = (text: string, from: number): number => {
+  let end = from;
+  while (isDigit(text[end])) {
+    end++;
+  }
+  return end - from;
+};
+
+/** A or B for the text from `from`: whichever is needed first, control characters or lowercase */
+const letterSet = (text: string, from: number): CodeSet => {
+  for (let i = from; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (isControl(code)) {
+      return 'A';
+    }
+    if (isLowercase(code)) {
+      return 'B';
+    }
+  }
+  return 'B';
+};
+
+const valueIn = (set: 'A' | 'B', code: number): number | null => {
+  if (set === 'A') {
+    if (isControl(code)) {
+      return code + 64;
+    }
+    return code < 96 ? code - 32 : null;
+  }
+  return code >= 32 ? code - 32 : null;
+};
+
+/**
+ * Symbol values for `text`, picking code sets to keep the barcode short:
+ * C packs digit pairs, A carries control characters and B lowercase.
+ */
+export const code128Values = (text: string): number[] => {
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) > 127) {
+      throw new BarcodeEncodeError(`Code 128 can't encode "${text[i]}"; only ASCII is supported`);
+    }
+  }
+  if (!text) {
+    throw new BarcodeEncodeError('Nothing to encode');
+  }
+
+  const leadingDigits = digitRun(text, 0);
+  let set: CodeSet = leadingDigits >= 4 || (leadingDigits === text.length && leadingDigits % 2 === 0)
+    ? 'C'
+    : letterSet(text, 0);
+  const values = [START[set]];
+
+  let i = 0;
+  while (i < text.length) {
+    if (set === 'C') {
+      if (digitRun(text, i) >= 2) {
+        values.push(Number(text.slice(i, i + 2)));
+        i += 2;
+        continue;
+      }
+      set = letterSet(text, i);
+      values.push(SWITCH_TO[set]);
+      continue;
+    }
+
+    // Switching to C pays off for 4 digits at the end or 6 in the middle (the switch back costs one more)
+    const run = digitRun(text, i);
+    if (run >= 6 || (run >= 4 && i + run === text.length)) {
+      if (run % 2 === 1) {
+        values.push(valueIn(set, text.charCodeAt(i)) as number);
+        i++;
+      }
+      set = 'C';
+      values.push(SWITCH_TO.C);
+      continue;
+    }
+
+    const code = text.charCodeAt(i);
+    const value = valueIn(set, code);
+    if (value === null) {
+      set = set === 'A' ? 'B' : 'A';
+      values.push(SWITCH_TO[set]);
+      continue;
+    }
+    values.push(value);
+    i++;
+  }
+
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+  return [...values, checksum, STOP];
+};
+
+/**
+ * Code 128 with automatic switching between subsets A, B and C
+ */
+export const encodeCode128 = (text: string): LinearSymbol => {
+  const modules: boolean[] = [];
+  for (const value of code128Values(text)) {
+    [...PATTERNS[value]].forEach((width, index) => {
+      for (let w = 0; w < Number(width); w++) {
+        modules.push(index % 2 === 0);
+      }
+    });
+  }
+  return {
+    kind: 'linear',
+    format: BARCODE_FORMATS.code128,
+    modules,
+    quietZone: { left: 10, right: 10 },
+    // Control characters have no printable form
+    text: [{
+      value: [...text].map(char => (isControl(char.charCodeAt(0)) || char === '\u007f' ? ' ' : char)).join(''),
+      x: modules.length / 2,
+      anchor: 'middle',
+    }],
+  };
+};
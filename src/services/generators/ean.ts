@@ -0,0 +1,97 @@
+import { gs1CheckDigit } from '../barcodeValidation';
+import { BARCODE_FORMATS } from '../decoders/formats';
+import { BarcodeEncodeError, type LinearSymbol } from './types';
+
+// Left-hand odd (L) patterns; even (G) and right-hand (R) patterns derive from them
+const L_PATTERNS = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+
+/** Which of the left six digits use G patterns, keyed by the first (implied) digit */
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+const invert = (pattern: string): string => [...pattern].map(bit => (bit === '1' ? '0' : '1')).join('');
+
+const R_PATTERNS = L_PATTERNS.map(invert);
+const G_PATTERNS = R_PATTERNS.map(pattern => [...pattern].reverse().join(''));
+
+const START = '101';
+const MIDDLE = '01010';
+const END = '101';
+
+/**
+ * Digits with the check digit appended, or checked when already present
+ */
+const withCheckDigit = (value: string, length: number, name: string): string => {
+  if (!/^\d+$/.test(value)) {
+    throw new BarcodeEncodeError(`${name} may only contain digits`);
+  }
+  if (value.length === length - 1) {
+    return value + gs1CheckDigit(value);
+  }
+  if (value.length !== length) {
+    throw new BarcodeEncodeError(`${name} needs ${length - 1} or ${length} digits, got ${value.length}`);
+  }
+  const expected = gs1CheckDigit(value.slice(0, -1));
+  if (Number(value[length - 1]) !== expected) {
+    throw new BarcodeEncodeError(`${name} check digit should be ${expected}, not ${value[length - 1]}`);
+  }
+  return value;
+};
+
+const toModules = (bits: string): boolean[] => [...bits].map(bit => bit === '1');
+
+/** The 95-module EAN-13 bar pattern plus which modules are guard bars */
+const ean13Bars = (digits: string): { modules: boolean[]; guards: boolean[] } => {
+  const parity = PARITY[Number(digits[0])];
+  const left = [...digits.slice(1, 7)]
+    .map((digit, index) => (parity[index] === 'L' ? L_PATTERNS : G_PATTERNS)[Number(digit)])
+    .join('');
+  const right = [...digits.slice(7)].map(digit => R_PATTERNS[Number(digit)]).join('');
+  const bits = START + left + MIDDLE + right + END;
+  const guardMask = '1'.repeat(START.length) + '0'.repeat(42) + '1'.repeat(MIDDLE.length) + '0'.repeat(42) + '1'.repeat(END.length);
+  return { modules: toModules(bits), guards: toModules(guardMask) };
+};
+
+/**
+ * EAN-13 from 12 digits (check digit added) or 13 (check digit verified)
+ */
+export const encodeEan13 = (value: string): LinearSymbol => {
+  const digits = withCheckDigit(value, 13, 'EAN-13');
+  const { modules, guards } = ean13Bars(digits);
+  return {
+    kind: 'linear',
+    format: BARCODE_FORMATS.ean13,
+    modules,
+    extended: guards,
+    quietZone: { left: 11, right: 7 },
+    text: [
+      // The first digit is only encoded in the parity pattern, so it's printed in the quiet zone
+      { value: digits[0], x: -2, anchor: 'end' },
+      { value: digits.slice(1, 7), x: 3 + 21, anchor: 'middle' },
+      { value: digits.slice(7), x: 50 + 21, anchor: 'middle' },
+    ],
+  };
+};
+
+/**
+ * UPC-A from 11 digits (check digit added) or 12 (check digit verified). The
+ * bars are those of the EAN-13 with a leading zero; the number system and
+ * check digits are printed outside and their bars run down like guards.
+ */
+export const encodeUpcA = (value: string): LinearSymbol => {
+  const digits = withCheckDigit(value, 12, 'UPC-A');
+  const { modules, guards } = ean13Bars(`0${digits}`);
+  const extended = guards.map((guard, index) => guard || (index >= 3 && index < 10) || (index >= 85 && index < 92));
+  return {
+    kind: 'linear',
+    format: BARCODE_FORMATS.upcA,
+    modules,
+    extended,
+    quietZone: { left: 9, right: 9 },
+    text: [
+      { value: digits[0], x: -2, anchor: 'end' },
+      { value: digits.slice(1, 6), x: 10 + 17.5, anchor: 'middle' },
+      { value: digits.slice(6, 11), x: 50 + 17.5, anchor: 'middle' },
+      { value: digits[11], x: 97, anchor: 'start' },
+    ],
+  };
+};
@@ -0,0 +1,53 @@
+import { gs1CheckDigit } from '../barcodeValidation';
+import { BARCODE_FORMATS } from '../decoders/formats';
+import { encodeCode128 } from './code128';
+import { encodeEan13, encodeUpcA } from './ean';
+import { encodeQr, type QrOptions } from './qr';
+import type { BarcodeSymbol, GeneratedFormat } from './types';
+
+export const GENERATED_FORMAT_LABELS: Record<GeneratedFormat, string> = {
+  [BARCODE_FORMATS.ean13]: 'EAN-13',
+  [BARCODE_FORMATS.upcA]: 'UPC-A',
+  [BARCODE_FORMATS.code128]: 'Code 128',
+  [BARCODE_FORMATS.qrCode]: 'QR code',
+};
+
+const hasValidCheckDigit = (digits: string): boolean =>
+  gs1CheckDigit(digits.slice(0, -1)) === Number(digits[digits.length - 1]);
+
+/**
+ * The symbology a value would be printed in when none is chosen: retail codes
+ * keep their own symbology, anything else goes in Code 128.
+ */
+export const suggestFormat = (value: string): GeneratedFormat => {
+  if (/^\d{13}$/.test(value) && hasValidCheckDigit(value)) {
+    return BARCODE_FORMATS.ean13;
+  }
+  if (/^\d{12}$/.test(value) && hasValidCheckDigit(value)) {
+    return BARCODE_FORMATS.upcA;
+  }
+  if (value && [...value].every(char => char.charCodeAt(0) <= 127)) {
+    return BARCODE_FORMATS.code128;
+  }
+  return BARCODE_FORMATS.qrCode;
+};
+
+/**
+ * Encodes `value` in the given symbology. Throws BarcodeEncodeError if it can't be.
+ */
+export const encodeBarcode = (
+  value: string,
+  format: GeneratedFormat | 'auto' = 'auto',
+  qrOptions?: QrOptions
+): BarcodeSymbol => {
+  switch (format === 'auto' ? suggestFormat(value) : format) {
+    case BARCODE_FORMATS.ean13:
+      return encodeEan13(value);
+    case BARCODE_FORMATS.upcA:
+      return encodeUpcA(value);
+    case BARCODE_FORMATS.code128:
+      return encodeCode128(value);
+    case BARCODE_FORMATS.qrCode:
+      return encodeQr(value, qrOptions);
+  }
+};
@@ -0,0 +1,163 @@
+import type { BarcodeSymbol, HumanReadableText } from './types';
+
+export interface RenderOptions {
+  /** Width of one module in output units (px for canvas, user units for SVG) */
+  moduleWidth?: number;
+  /** Bar height of 1D symbols; 2D symbols are square */
+  height?: number;
+  showText?: boolean;
+  fontSize?: number;
+  foreground?: string;
+  background?: string;
+}
+
+const DEFAULT_RENDER_OPTIONS: Required<RenderOptions> = {
+  moduleWidth: 2,
+  height: 60,
+  showText: true,
+  fontSize: 0,
+  foreground: '#000',
+  background: '#fff',
+};
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface PlacedText {
+  value: string;
+  x: number;
+  y: number;
+  anchor: HumanReadableText['anchor'];
+}
+
+/** Everything to draw, in output units, shared by the SVG and canvas renderers */
+export interface SymbolLayout {
+  width: number;
+  height: number;
+  rects: Rect[];
+  texts: PlacedText[];
+  fontSize: number;
+  foreground: string;
+  background: string;
+}
+
+/** Rects for each run of dark modules, so adjacent modules don't show hairline gaps */
+const runs = (modules: boolean[]): { start: number; length: number }[] => {
+  const result: { start: number; length: number }[] = [];
+  modules.forEach((dark, i) => {
+    if (!dark) {
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last && last.start + last.length === i) {
+      last.length++;
+    } else {
+      result.push({ start: i, length: 1 });
+    }
+  });
+  return result;
+};
+
+export const layoutSymbol = (symbol: BarcodeSymbol, options: RenderOptions = {}): SymbolLayout => {
+  const settings = { ...DEFAULT_RENDER_OPTIONS, ...options };
+  const unit = settings.moduleWidth;
+  const fontSize = settings.fontSize || unit * 9;
+  const showText = settings.showText && symbol.text.length > 0;
+  const { foreground, background } = settings;
+
+  if (symbol.kind === 'matrix') {
+    const offset = symbol.quietZone * unit;
+    const side = (symbol.size + symbol.quietZone * 2) * unit;
+    const rects = symbol.modules.flatMap((row, y) => runs(row).map(run => ({
+      x: offset + run.start * unit,
+      y: offset + y * unit,
+      width: run.length * unit,
+      height: unit,
+    })));
+    const texts = showText
+      ? symbol.text.map(text => ({ value: text.value, x: offset + text.x * unit, y: side + fontSize, anchor: text.anchor }))
+      : [];
+    return { width: side, height: side + (showText ? fontSize * 1.2 : 0), rects, texts, fontSize, foreground, background };
+  }
+
+  const offset = symbol.quietZone.left * unit;
+  const barHeight = settings.height;
+  const textTop = barHeight + unit;
+  const extendedHeight = showText ? textTop + fontSize / 2 : barHeight;
+  const rects = runs(symbol.modules).map(run => ({
+    x: offset + run.start * unit,
+    y: 0,
+    width: run.length * unit,
+    height: symbol.extended?.[run.start] ? extendedHeight : barHeight,
+  }));
+  const texts = showText
+    ? symbol.text.map(text => ({ value: text.value, x: offset + text.x * unit, y: textTop + fontSize * 0.8, anchor: text.anchor }))
+    : [];
+  return {
+    width: (symbol.quietZone.left + symbol.modules.length + symbol.quietZone.right) * unit,
+    height: showText ? textTop + fontSize : barHeight,
+    rects,
+    texts,
+    fontSize,
+    foreground,
+    background,
+  };
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Standalone SVG markup for a symbol, quiet zones included
+ */
+export const toSvg = (symbol: BarcodeSymbol, options?: RenderOptions): string => {
+  const layout = layoutSymbol(symbol, options);
+  const width = round(layout.width);
+  const height = round(layout.height);
+  const path = layout.rects
+    .map(rect => `M${round(rect.x)},${round(rect.y)}h${round(rect.width)}v${round(rect.height)}h${-round(rect.width)}z`)
+    .join('');
+  const texts = layout.texts
+    .map(text => `<text x="${round(text.x)}" y="${round(text.y)}" text-anchor="${text.anchor}">${escapeXml(text.value)}</text>`)
+    .join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" shape-rendering="crispEdges">`
+    + `<rect width="100%" height="100%" fill="${layout.background}"/>`
+    + `<path d="${path}" fill="${layout.foreground}"/>`
+    + (texts ? `<g font-family="monospace" font-size="${round(layout.fontSize)}" fill="${layout.foreground}">${texts}</g>` : '')
+    + '</svg>';
+};
+
+const CANVAS_ALIGN: Record<HumanReadableText['anchor'], CanvasTextAlign> = {
+  start: 'left',
+  middle: 'center',
+  end: 'right',
+};
+
+/**
+ * Draws a symbol onto `canvas`, resizing it to fit
+ */
+export const drawToCanvas = (canvas: HTMLCanvasElement, symbol: BarcodeSymbol, options?: RenderOptions): void => {
+  const layout = layoutSymbol(symbol, options);
+  canvas.width = Math.ceil(layout.width);
+  canvas.height = Math.ceil(layout.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return;
+  }
+  context.fillStyle = layout.background;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = layout.foreground;
+  layout.rects.forEach(rect => context.fillRect(rect.x, rect.y, rect.width, rect.height));
+  context.font = `${layout.fontSize}px monospace`;
+  context.textBaseline = 'alphabetic';
+  layout.texts.forEach(text => {
+    context.textAlign = CANVAS_ALIGN[text.anchor];
+    context.fillText(text.value, text.x, text.y);
+  });
+};
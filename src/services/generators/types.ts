@@ -0,0 +1,52 @@
+import type { BARCODE_FORMATS } from '../decoders/formats';
+
+/** Formats the generators can produce, named as in formats.ts */
+export type GeneratedFormat =
+  | typeof BARCODE_FORMATS.ean13
+  | typeof BARCODE_FORMATS.upcA
+  | typeof BARCODE_FORMATS.code128
+  | typeof BARCODE_FORMATS.qrCode;
+
+export interface HumanReadableText {
+  value: string;
+  /** Position in modules from the first module of the symbol (after the left quiet zone) */
+  x: number;
+  anchor: 'start' | 'middle' | 'end';
+}
+
+/**
+ * A 1D barcode as a row of modules (narrowest bar/space units)
+ */
+export interface LinearSymbol {
+  kind: 'linear';
+  format: GeneratedFormat;
+  /** true for a bar module */
+  modules: boolean[];
+  /** Bars that run down between the digits, like EAN/UPC guard bars */
+  extended?: boolean[];
+  /** Minimum blank modules on each side for scanners to find the code */
+  quietZone: { left: number; right: number };
+  text: HumanReadableText[];
+}
+
+/**
+ * A 2D barcode as a square grid of modules
+ */
+export interface MatrixSymbol {
+  kind: 'matrix';
+  format: GeneratedFormat;
+  size: number;
+  /** Rows of modules, true for dark */
+  modules: boolean[][];
+  quietZone: number;
+  text: HumanReadableText[];
+}
+
+export type BarcodeSymbol = LinearSymbol | MatrixSymbol;
+
+export class BarcodeEncodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BarcodeEncodeError';
+  }
+}
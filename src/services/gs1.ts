@@ -0,0 +1,355 @@
+import type { Gs1Fields } from '../types';
+import { canonicalGtin, gs1CheckDigit } from './barcodeValidation';
+
+/** ASCII group separator, how scanners and 2D decoders transmit FNC1 between fields */
+export const GS = '\u001d';
+
+type Gs1ValueKind = 'numeric' | 'alphanumeric' | 'date' | 'decimal';
+
+interface AiDefinition {
+  label: string;
+  kind: Gs1ValueKind;
+  /** Exact length for fixed-length AIs */
+  length?: number;
+  /** Upper bound for variable-length AIs, which end at a GS or the end of data */
+  maxLength?: number;
+  unit?: string;
+}
+
+export interface Gs1Element {
+  ai: string;
+  label: string;
+  value: string;
+  /** Value formatted for people: ISO dates, decimal weights with unit */
+  display: string;
+}
+
+export interface Gs1ParseResult {
+  fields: Gs1Fields;
+  elements: Gs1Element[];
+  /** AI (01) when present, normalised to 14 digits */
+  gtin?: string;
+  source: 'element-string' | 'digital-link';
+}
+
+export class Gs1ParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Gs1ParseError';
+  }
+}
+
+const fixed = (label: string, length: number, kind: Gs1ValueKind = 'numeric'): AiDefinition => ({ label, kind, length });
+const variable = (label: string, maxLength: number, kind: Gs1ValueKind = 'alphanumeric'): AiDefinition => ({ label, kind, maxLength });
+const date = (label: string): AiDefinition => ({ label, kind: 'date', length: 6 });
+
+const AI_DEFINITIONS: Record<string, AiDefinition> = {
+  '00': fixed('SSCC', 18),
+  '01': fixed('GTIN', 14),
+  '02': fixed('Contained GTIN', 14),
+  '10': variable('Batch/lot', 20),
+  '11': date('Production date'),
+  '12': date('Due date'),
+  '13': date('Packaging date'),
+  '15': date('Best before'),
+  '16': date('Sell by'),
+  '17': date('Expiry'),
+  '20': fixed('Variant', 2),
+  '21': variable('Serial', 20),
+  '22': variable('Consumer product variant', 20),
+  '235': variable('Third-party serial', 28),
+  '240': variable('Additional product ID', 30),
+  '241': variable('Customer part number', 30),
+  '250': variable('Secondary serial', 30),
+  '251': variable('Reference to source entity', 30),
+  '253': variable('Global document type ID', 30),
+  '254': variable('GLN extension', 20),
+  '30': variable('Variable count', 8, 'numeric'),
+  '37': variable('Count of trade items', 8, 'numeric'),
+  '400': variable("Customer's purchase order", 30),
+  '401': variable('Consignment number', 30),
+  '402': fixed('Shipment ID', 17),
+  '403': variable('Routing code', 30),
+  '410': fixed('Ship to GLN', 13),
+  '411': fixed('Bill to GLN', 13),
+  '412': fixed('Purchased from GLN', 13),
+  '413': fixed('Ship for GLN', 13),
+  '414': fixed('Location GLN', 13),
+  '415': fixed('Invoicing party GLN', 13),
+  '416': fixed('Production/service location GLN', 13),
+  '417': fixed('Party GLN', 13),
+  '420': variable('Ship to postal code', 20),
+  '421': variable('Ship to postal code with country', 12),
+  '422': fixed('Country of origin', 3),
+  '7003': fixed('Expiry date and time', 10),
+  '8003': variable('GRAI', 30),
+  '8004': variable('GIAI', 30),
+  '8005': fixed('Price per unit', 6),
+  '8008': variable('Production date and time', 12, 'numeric'),
+  '8020': variable('Payment slip reference', 25),
+  '8200': variable('Product URL', 70),
+  '90': variable('Internal (mutually agreed)', 30),
+};
+
+// Measures carry their decimal point position in the AI's last digit, e.g. 3103 = kg with 3 decimals
+const MEASURES: [string, string, string][] = [
+  ['310', 'Net weight', 'kg'],
+  ['311', 'Length', 'm'],
+  ['312', 'Width', 'm'],
+  ['313', 'Depth', 'm'],
+  ['314', 'Area', 'm²'],
+  ['315', 'Net volume', 'l'],
+  ['316', 'Net volume', 'm³'],
+  ['320', 'Net weight', 'lb'],
+  ['330', 'Gross weight', 'kg'],
+  ['356', 'Net weight', 'troy oz'],
+];
+for (const [prefix, label, unit] of MEASURES) {
+  for (let decimals = 0; decimals <= 5; decimals++) {
+    AI_DEFINITIONS[`${prefix}${decimals}`] = { label, kind: 'decimal', length: 6, unit };
+  }
+}
+for (let decimals = 0; decimals <= 3; decimals++) {
+  AI_DEFINITIONS[`392${decimals}`] = { label: 'Price', kind: 'decimal', maxLength: 15 };
+}
+for (let company = 1; company <= 9; company++) {
+  AI_DEFINITIONS[`9${company}`] = variable('Company internal', 90);
+}
+
+// Primary keys that may start a Digital Link path, e.g. https://id.gs1.org/01/09506000134352
+const DIGITAL_LINK_KEYS = new Set(['00', '01', '253', '401', '402', '414', '417', '8003', '8004']);
+
+const findAi = (data: string, position: number): string | undefined => {
+  for (const length of [2, 3, 4]) {
+    const candidate = data.slice(position, position + length);
+    if (AI_DEFINITIONS[candidate]) {
+      return candidate;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * GS1 dates are YYMMDD, with the century picked so the date lands within
+ * 49 years back / 50 years ahead of today, and DD=00 meaning end of month
+ */
+const formatGs1Date = (value: string): string => {
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  const currentYear = new Date().getFullYear();
+  const century = Math.floor(currentYear / 100) * 100;
+  let year = century + yy;
+  if (year - currentYear > 50) year -= 100;
+  if (currentYear - year > 49) year += 100;
+
+  const resolvedDay = day === 0 ? new Date(year, month, 0).getDate() : day;
+  return `${year}-${String(month).padStart(2, '0')}-${String(resolvedDay).padStart(2, '0')}`;
+};
+
+const checkValue = (ai: string, definition: AiDefinition, value: string): void => {
+  if (!value) {
+    throw new Gs1ParseError(`(${ai}) ${definition.label} is empty`);
+  }
+  if (definition.length !== undefined && value.length !== definition.length) {
+    throw new Gs1ParseError(`(${ai}) ${definition.label} must be ${definition.length} characters, got ${value.length}`);
+  }
+  if (definition.maxLength !== undefined && value.length > definition.maxLength) {
+    throw new Gs1ParseError(`(${ai}) ${definition.label} is longer than ${definition.maxLength} characters`);
+  }
+  if (definition.kind !== 'alphanumeric' && !/^\d+$/.test(value)) {
+    throw new Gs1ParseError(`(${ai}) ${definition.label} must be numeric`);
+  }
+  if (definition.kind === 'date') {
+    const month = Number(value.slice(2, 4));
+    const day = Number(value.slice(4, 6));
+    if (month < 1 || month > 12 || day > 31) {
+      throw new Gs1ParseError(`(${ai}) ${definition.label} ${value} is not a valid YYMMDD date`);
+    }
+  }
+  if ((ai === '00' || ai === '01' || ai === '02') && Number(value[value.length - 1]) !== gs1CheckDigit(value.slice(0, -1))) {
+    throw new Gs1ParseError(`(${ai}) ${definition.label} ${value} has a wrong check digit`);
+  }
+};
+
+const toElement = (ai: string, value: string): Gs1Element => {
+  const definition = AI_DEFINITIONS[ai];
+  let display = value;
+  if (definition.kind === 'date') {
+    display = formatGs1Date(value);
+  } else if (definition.kind === 'decimal') {
+    const decimals = Number(ai[ai.length - 1]);
+    display = (Number(value) / 10 ** decimals).toFixed(decimals);
+    if (definition.unit) display += ` ${definition.unit}`;
+  }
+  return { ai, label: definition.label, value, display };
+};
+
+const buildResult = (pairs: [string, string][], source: Gs1ParseResult['source']): Gs1ParseResult => {
+  const fields: Gs1Fields = {};
+  const elements: Gs1Element[] = [];
+  for (const [ai, value] of pairs) {
+    if (ai in fields) {
+      throw new Gs1ParseError(`(${ai}) appears more than once`);
+    }
+    checkValue(ai, AI_DEFINITIONS[ai], value);
+    fields[ai] = value;
+    elements.push(toElement(ai, value));
+  }
+  if (elements.length === 0) {
+    throw new Gs1ParseError('No GS1 data found');
+  }
+  return { fields, elements, gtin: fields['01'], source };
+};
+
+/**
+ * Parse "(01)09501101530003(17)270331(10)AB-123" as printed under GS1-128 labels
+ */
+const parseBracketed = (data: string): [string, string][] => {
+  const pairs: [string, string][] = [];
+  const pattern = /\((\d{2,4})\)([^(]*)/g;
+  let consumed = 0;
+  for (const match of data.matchAll(pattern)) {
+    if (match.index !== consumed) {
+      throw new Gs1ParseError(`Unexpected text before (${match[1]})`);
+    }
+    if (!AI_DEFINITIONS[match[1]]) {
+      throw new Gs1ParseError(`Unknown application identifier (${match[1]})`);
+    }
+    pairs.push([match[1], match[2]]);
+    consumed = match.index + match[0].length;
+  }
+  if (consumed !== data.length) {
+    throw new Gs1ParseError('Trailing text after the last application identifier');
+  }
+  return pairs;
+};
+
+/**
+ * Parse raw element strings: fixed-length AIs run straight into the next AI,
+ * variable-length ones end at a GS (FNC1) or the end of the data
+ */
+const parseConcatenated = (data: string): [string, string][] => {
+  const pairs: [string, string][] = [];
+  let position = 0;
+  while (position < data.length) {
+    if (data[position] === GS) {
+      position++;
+      continue;
+    }
+    const ai = findAi(data, position);
+    if (!ai) {
+      throw new Gs1ParseError(`Unknown application identifier at "${data.slice(position, position + 4)}"`);
+    }
+    const definition = AI_DEFINITIONS[ai];
+    const start = position + ai.length;
+    let end: number;
+    if (definition.length !== undefined) {
+      end = start + definition.length;
+    } else {
+      const separator = data.indexOf(GS, start);
+      end = separator === -1 ? data.length : separator;
+    }
+    pairs.push([ai, data.slice(start, end)]);
+    position = end;
+  }
+  return pairs;
+};
+
+/**
+ * GS1 Digital Link: AI/value pairs in the URL path after any prefix, plus
+ * further AIs as query parameters
+ */
+export const parseGs1DigitalLink = (text: string): Gs1ParseResult | null => {
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+
+  let segments: string[];
+  try {
+    segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // URIError from a malformed percent-escape
+    throw new Gs1ParseError('Malformed percent-encoding in Digital Link path');
+  }
+  const keyIndex = segments.findIndex((segment, index) =>
+    DIGITAL_LINK_KEYS.has(segment) && index + 1 < segments.length
+  );
+  if (keyIndex === -1) {
+    return null;
+  }
+
+  const pairs: [string, string][] = [];
+  for (let index = keyIndex; index + 1 < segments.length; index += 2) {
+    const ai = segments[index];
+    if (!AI_DEFINITIONS[ai]) {
+      throw new Gs1ParseError(`Unknown application identifier (${ai}) in Digital Link path`);
+    }
+    // Digital Link allows GTIN-8/12/13 in the path; element strings always use 14 digits
+    pairs.push([ai, ai === '01' ? segments[index + 1].padStart(14, '0') : segments[index + 1]]);
+  }
+  url.searchParams.forEach((value, key) => {
+    if (AI_DEFINITIONS[key]) {
+      pairs.push([key, value]);
+    }
+  });
+  return buildResult(pairs, 'digital-link');
+};
+
+/**
+ * Parse a scanned value as GS1 data. Returns null when it doesn't look like
+ * GS1 at all (plain EAN, free text); throws Gs1ParseError when it does but
+ * is malformed. Bare strings with no symbology identifier or separator are
+ * only parsed with `assumeGs1` and when they open with AI (00) or (01), e.g.
+ * for GS1-128 reads from Quagga, which drops the leading FNC1.
+ */
+export const parseGs1 = (text: string, options: { assumeGs1?: boolean } = {}): Gs1ParseResult | null => {
+  const value = text.trim();
+
+  if (/^https?:\/\//i.test(value)) {
+    return parseGs1DigitalLink(value);
+  }
+  if (value.startsWith('(')) {
+    return buildResult(parseBracketed(value), 'element-string');
+  }
+
+  // ]C1 = GS1-128, ]d2 = GS1 DataMatrix, ]Q3 = GS1 QR, ]e0 = GS1 DataBar
+  const symbologyId = /^\](C1|d2|Q3|e0|J1)/.exec(value);
+  if (symbologyId) {
+    return buildResult(parseConcatenated(value.slice(3)), 'element-string');
+  }
+  if (value.startsWith(GS) || (value.includes(GS) && findAi(value, 0))) {
+    return buildResult(parseConcatenated(value), 'element-string');
+  }
+  // Without an explicit marker only an SSCC or GTIN up front is taken as GS1, so "99ABC" stays plain text
+  if (options.assumeGs1 && /^0[01]/.test(value) && findAi(value, 0)) {
+    try {
+      return buildResult(parseConcatenated(value), 'element-string');
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+/**
+ * Code to look the product up by: the GTIN in the same canonical form a
+ * plain EAN/UPC scan of it submits (packaging-level GTIN-14s are kept whole),
+ * otherwise the raw value
+ */
+export const gs1ProductCode = (result: Gs1ParseResult, raw: string): string =>
+  result.gtin ? canonicalGtin(result.gtin) : raw;
+
+/**
+ * Labelled, formatted elements for fields stored on a scan
+ */
+export const describeGs1Fields = (fields: Gs1Fields): Gs1Element[] =>
+  Object.entries(fields).map(([ai, value]) =>
+    AI_DEFINITIONS[ai] ? toElement(ai, value) : { ai, label: `AI ${ai}`, value, display: value }
+  );
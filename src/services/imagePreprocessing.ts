@@ -0,0 +1,230 @@
+import type { Point } from './barcodeDetectionService';
+
+type WorkCanvas = HTMLCanvasElement | OffscreenCanvas;
+type WorkContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type PreprocessStep =
+  | 'downscale'
+  | 'grayscale'
+  | 'contrast'
+  | 'threshold'
+  | 'invert'
+  | 'rotate';
+
+export interface PreprocessConfig {
+  enabled: boolean;
+  /** Give up on the retry pipeline after this long */
+  timeBudgetMs: number;
+  /** Variants are built from a copy no larger than this on its longer side */
+  maxDimension: number;
+  /** Small rotations tried for skewed barcodes, in degrees */
+  deskewAngles: number[];
+}
+
+export const DEFAULT_PREPROCESS_CONFIG: PreprocessConfig = {
+  enabled: true,
+  timeBudgetMs: 4000,
+  maxDimension: 1600,
+  deskewAngles: [-10, -5, 5, 10],
+};
+
+/**
+ * One image variant to retry decoding on. `toSource` maps a point on the
+ * variant back onto the original image so overlays still line up.
+ */
+export interface PreprocessVariant {
+  /** Short machine-readable description, e.g. "grayscale+threshold" or "rotate90" */
+  id: string;
+  steps: PreprocessStep[];
+  canvas: WorkCanvas;
+  toSource: (point: Point) => Point;
+}
+
+const createCanvas = (width: number, height: number): WorkCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const getContext = (canvas: WorkCanvas): WorkContext => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as WorkContext | null;
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  return ctx;
+};
+
+/**
+ * Luma per pixel (ITU-R BT.601 weights)
+ */
+const toLuma = (data: Uint8ClampedArray): Uint8ClampedArray => {
+  const luma = new Uint8ClampedArray(data.length / 4);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    luma[p] = (data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000;
+  }
+  return luma;
+};
+
+/**
+ * Stretch luma so the 1st..99th percentile covers the full 0..255 range
+ */
+const stretchContrast = (luma: Uint8ClampedArray): void => {
+  const histogram = new Uint32Array(256);
+  luma.forEach(value => histogram[value]++);
+
+  const clip = luma.length * 0.01;
+  let low = 0;
+  let high = 255;
+  for (let count = 0; low < 255 && count + histogram[low] <= clip; low++) count += histogram[low];
+  for (let count = 0; high > 0 && count + histogram[high] <= clip; high--) count += histogram[high];
+  if (high <= low) {
+    return;
+  }
+
+  const range = high - low;
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = ((luma[i] - low) * 255) / range;
+  }
+};
+
+/**
+ * Bradley-Roth adaptive threshold: a pixel is black when it is noticeably
+ * darker than the mean of its neighbourhood, which copes with uneven lighting
+ */
+const adaptiveThreshold = (luma: Uint8ClampedArray, width: number, height: number): void => {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += luma[y * width + x];
+      integral[(y + 1) * (width + 1) + (x + 1)] = integral[y * (width + 1) + (x + 1)] + rowSum;
+    }
+  }
+
+  const half = Math.max(4, Math.floor(Math.max(width, height) / 16));
+  const sensitivity = 0.15;
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - half);
+    const y2 = Math.min(height - 1, y + half);
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - half);
+      const x2 = Math.min(width - 1, x + half);
+      const area = (x2 - x1 + 1) * (y2 - y1 + 1);
+      const sum =
+        integral[(y2 + 1) * (width + 1) + (x2 + 1)] -
+        integral[y1 * (width + 1) + (x2 + 1)] -
+        integral[(y2 + 1) * (width + 1) + x1] +
+        integral[y1 * (width + 1) + x1];
+      const index = y * width + x;
+      luma[index] = luma[index] * area < sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+};
+
+/**
+ * Copy `base` applying per-pixel luma steps (grayscale, contrast, threshold, invert)
+ */
+const applyPixelSteps = (base: WorkCanvas, steps: PreprocessStep[]): WorkCanvas => {
+  const { width, height } = base;
+  const canvas = createCanvas(width, height);
+  const ctx = getContext(canvas);
+  ctx.drawImage(base, 0, 0);
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const luma = toLuma(imageData.data);
+  if (steps.includes('contrast')) stretchContrast(luma);
+  if (steps.includes('threshold')) adaptiveThreshold(luma, width, height);
+  const invert = steps.includes('invert');
+
+  const data = imageData.data;
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const value = invert ? 255 - luma[p] : luma[p];
+    data[i] = data[i + 1] = data[i + 2] = value;
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+/**
+ * Rotate `base` by `degrees` clockwise onto a canvas just large enough to hold it
+ */
+const rotate = (base: WorkCanvas, degrees: number): { canvas: WorkCanvas; toBase: (point: Point) => Point } => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const width = Math.round(Math.abs(base.width * cos) + Math.abs(base.height * sin));
+  const height = Math.round(Math.abs(base.width * sin) + Math.abs(base.height * cos));
+
+  const canvas = createCanvas(width, height);
+  const ctx = getContext(canvas);
+  // Fill so the corners exposed by small rotations read as quiet zone, not black bars
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(base, -base.width / 2, -base.height / 2);
+
+  const toBase = ({ x, y }: Point): Point => {
+    const dx = x - width / 2;
+    const dy = y - height / 2;
+    return {
+      x: dx * cos + dy * sin + base.width / 2,
+      y: -dx * sin + dy * cos + base.height / 2,
+    };
+  };
+  return { canvas, toBase };
+};
+
+/** Let the browser paint and handle input before the next block of pixel work */
+const nextTask = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Lazily build retry variants, cheapest and most likely first. Generated one
+ * at a time so the caller can stop as soon as one decodes or time runs out;
+ * each is built in its own task so the page stays responsive meanwhile.
+ */
+export async function* preprocessVariants(source: ImageBitmap, config: PreprocessConfig): AsyncGenerator<PreprocessVariant> {
+  const scale = Math.min(1, config.maxDimension / Math.max(source.width, source.height));
+  const base = createCanvas(Math.round(source.width * scale), Math.round(source.height * scale));
+  getContext(base).drawImage(source, 0, 0, base.width, base.height);
+
+  const fromBase = ({ x, y }: Point): Point => ({ x: x / scale, y: y / scale });
+  const downscaled: PreprocessStep[] = scale < 1 ? ['downscale'] : [];
+  const label = (steps: PreprocessStep[], suffix = ''): string =>
+    [...steps, ...(suffix ? [suffix] : [])].join('+') || 'original';
+
+  if (scale < 1) {
+    // Very large photos defeat Quagga's locator on their own
+    yield { id: label(downscaled), steps: downscaled, canvas: base, toSource: fromBase };
+  }
+
+  const pixelVariants: PreprocessStep[][] = [
+    ['grayscale', 'contrast'],
+    ['grayscale', 'threshold'],
+    ['grayscale', 'contrast', 'invert'],
+    ['grayscale', 'threshold', 'invert'],
+  ];
+  for (const pixelSteps of pixelVariants) {
+    await nextTask();
+    const steps = [...downscaled, ...pixelSteps];
+    yield { id: label(steps), steps, canvas: applyPixelSteps(base, pixelSteps), toSource: fromBase };
+  }
+
+  const rotations = [90, 180, 270, ...config.deskewAngles];
+  for (const degrees of rotations) {
+    await nextTask();
+    const { canvas, toBase } = rotate(base, degrees);
+    const steps: PreprocessStep[] = [...downscaled, 'rotate'];
+    yield {
+      id: label(downscaled, `rotate${degrees}`),
+      steps,
+      canvas,
+      toSource: point => fromBase(toBase(point)),
+    };
+  }
+}
@@ -0,0 +1,102 @@
+const DB_NAME = 'barcode-scanner';
+const DB_VERSION = 5;
+
+export const STORES = {
+  scanQueue: 'scanQueue',
+  products: 'products',
+  sessions: 'sessions',
+  stockCounts: 'stockCounts',
+  picks: 'picks',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Create or migrate object stores. Each version step only adds what it needs,
+ * so a browser that skipped several releases still ends up with every store.
+ */
+const upgrade = (db: IDBDatabase, oldVersion: number): void => {
+  if (oldVersion < 1) {
+    const queue = db.createObjectStore(STORES.scanQueue, { keyPath: 'id', autoIncrement: true });
+    queue.createIndex('status', 'status');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.products, { keyPath: 'barcode' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.stockCounts, { keyPath: 'locationId' });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.picks, { keyPath: 'orderId' });
+  }
+};
+
+/**
+ * Open (once) the shared application database
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema - let it proceed and reopen next time
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('IndexedDB upgrade blocked by another open tab');
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run `work` inside a transaction and resolve with its result once the transaction commits
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+  const result = await work(transaction.objectStore(storeName));
+  await done;
+  return result;
+};
@@ -0,0 +1,79 @@
+import type { ScannedItem } from '../types';
+
+export type ItemSortKey = 'timestamp' | 'name' | 'barcode' | 'price';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ItemQuery {
+  /** Matched case-insensitively against name and barcode */
+  search: string;
+  minPrice?: number;
+  maxPrice?: number;
+  /** Inclusive range on the scan timestamp */
+  from?: Date;
+  to?: Date;
+  /** Symbology such as ean_13; items without one never match */
+  format?: string;
+  sortBy: ItemSortKey;
+  sortDirection: SortDirection;
+}
+
+export const DEFAULT_ITEM_QUERY: ItemQuery = {
+  search: '',
+  sortBy: 'timestamp',
+  sortDirection: 'desc',
+};
+
+/**
+ * A date input value (yyyy-mm-dd) as local midnight, or the last moment of that day
+ */
+export const parseDateInput = (value: string, endOfDay: boolean = false): Date | undefined =>
+  value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`) : undefined;
+
+const compareItems = (key: ItemSortKey): ((a: ScannedItem, b: ScannedItem) => number) => {
+  switch (key) {
+    case 'price':
+      return (a, b) => a.price - b.price;
+    case 'timestamp':
+      // Unparseable timestamps sort as the oldest
+      return (a, b) => (Date.parse(a.timestamp) || 0) - (Date.parse(b.timestamp) || 0);
+    default:
+      return (a, b) => a[key].localeCompare(b[key], undefined, { numeric: true, sensitivity: 'base' });
+  }
+};
+
+/**
+ * Filter and sort items; the input array is left untouched
+ */
+export const queryItems = (items: ScannedItem[], query: ItemQuery): ScannedItem[] => {
+  const search = query.search.trim().toLowerCase();
+  const from = query.from?.getTime();
+  const to = query.to?.getTime();
+
+  const matches = items.filter(item => {
+    if (search && !item.name.toLowerCase().includes(search) && !item.barcode.toLowerCase().includes(search)) {
+      return false;
+    }
+    if ((query.minPrice !== undefined && item.price < query.minPrice) ||
+      (query.maxPrice !== undefined && item.price > query.maxPrice)) {
+      return false;
+    }
+    if (from !== undefined || to !== undefined) {
+      const time = Date.parse(item.timestamp);
+      if (Number.isNaN(time) || (from !== undefined && time < from) || (to !== undefined && time > to)) {
+        return false;
+      }
+    }
+    return !query.format || item.format === query.format;
+  });
+
+  const compare = compareItems(query.sortBy);
+  const direction = query.sortDirection === 'asc' ? 1 : -1;
+  return matches.sort((a, b) => compare(a, b) * direction);
+};
+
+/**
+ * Distinct symbologies present in the list, for the format filter
+ */
+export const itemFormats = (items: ScannedItem[]): string[] =>
+  [...new Set(items.map(item => item.format).filter((format): format is string => !!format))].sort();
@@ -0,0 +1,258 @@
+import { BARCODE_FORMATS, type BarcodeFormat } from './decoders/formats';
+
+/**
+ * Keyboard-wedge (USB HID) scanners type the barcode as keystrokes. They're
+ * told apart from people by timing: a scanner sends a whole code with a few
+ * milliseconds between keys, which nobody types that fast for long.
+ */
+
+export interface WedgeConfig {
+  enabled: boolean;
+  /** Characters the scanner sends before every code; required and stripped when set */
+  prefix: string;
+  /** Characters that end a code: '\r' for Enter, '\t' for Tab, '' to end after a pause */
+  suffix: string;
+  /** Longest gap between two keys of the same scan */
+  maxKeyIntervalMs: number;
+  /** Shorter fast bursts are treated as typing */
+  minLength: number;
+  /** Read and strip an AIM symbology identifier (]E0, ]C1, ...) at the start of the code */
+  aimIds: boolean;
+}
+
+export interface WedgeScan {
+  /** The code without prefix, suffix or symbology identifier */
+  code: string;
+  /** The AIM symbology identifier as sent, e.g. "]E0" */
+  aimId?: string;
+  format?: BarcodeFormat;
+}
+
+export const DEFAULT_WEDGE_CONFIG: WedgeConfig = {
+  enabled: true,
+  prefix: '',
+  suffix: '\r',
+  maxKeyIntervalMs: 35,
+  minLength: 4,
+  aimIds: true,
+};
+
+const STORAGE_KEY = 'barcode-scanner.wedge';
+
+export const loadWedgeConfig = (): WedgeConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<WedgeConfig> | null;
+    return { ...DEFAULT_WEDGE_CONFIG, ...stored };
+  } catch {
+    return DEFAULT_WEDGE_CONFIG;
+  }
+};
+
+export const saveWedgeConfig = (config: WedgeConfig): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.warn('Could not save scanner settings:', error);
+  }
+};
+
+/** Symbology character of an AIM identifier to the format it carries */
+const AIM_SYMBOLOGIES: Record<string, BarcodeFormat> = {
+  A: BARCODE_FORMATS.code39,
+  C: BARCODE_FORMATS.code128,
+  F: BARCODE_FORMATS.codabar,
+  G: BARCODE_FORMATS.code93,
+  I: BARCODE_FORMATS.itf,
+  L: BARCODE_FORMATS.pdf417,
+  Q: BARCODE_FORMATS.qrCode,
+  d: BARCODE_FORMATS.dataMatrix,
+  z: BARCODE_FORMATS.aztec,
+};
+
+// ]E0 covers EAN-13, UPC-A and UPC-E; scanners differ in whether they expand the UPC forms
+const eanUpcFormat = (modifier: string, code: string): BarcodeFormat | undefined => {
+  if (modifier === '4') {
+    return BARCODE_FORMATS.ean8;
+  }
+  if (modifier !== '0') {
+    return undefined;
+  }
+  switch (code.length) {
+    case 8:
+      return BARCODE_FORMATS.upcE;
+    case 12:
+      return BARCODE_FORMATS.upcA;
+    default:
+      return BARCODE_FORMATS.ean13;
+  }
+};
+
+/**
+ * Split an AIM symbology identifier ("]" + symbology + modifier) off a code.
+ * Codes without one, or with an unknown symbology, come back unchanged.
+ */
+export const parseAimId = (value: string): WedgeScan => {
+  const match = /^\]([A-Za-z])([0-9A-Za-z])/.exec(value);
+  if (!match) {
+    return { code: value };
+  }
+  const [aimId, symbology, modifier] = match;
+  const code = value.slice(aimId.length);
+  if (symbology === 'E') {
+    return { code, aimId, format: eanUpcFormat(modifier, code) };
+  }
+  // GS1 DataBar and the other identifiers have no format of their own here
+  if (symbology === 'e' || symbology === 'X') {
+    return { code, aimId };
+  }
+  const format = AIM_SYMBOLOGIES[symbology];
+  return format ? { code, aimId, format } : { code: value };
+};
+
+/**
+ * Splits keystrokes into scanner bursts. Feed it the characters in order
+ * with their timestamps; it reports a scan when a fast burst ends.
+ */
+export class WedgeDetector {
+  private config: WedgeConfig;
+  private buffer = '';
+  private lastKeyAt = Number.NEGATIVE_INFINITY;
+
+  constructor(config: WedgeConfig) {
+    this.config = config;
+  }
+
+  /** True when the next key would start a new burst */
+  isIdle(time: number): boolean {
+    return this.buffer === '' || time - this.lastKeyAt > this.config.maxKeyIntervalMs;
+  }
+
+  /**
+   * Add one character ('\r' for Enter, '\t' for Tab). Returns the scan when
+   * this key was the suffix ending one.
+   */
+  push(char: string, time: number): WedgeScan | null {
+    if (this.isIdle(time)) {
+      this.buffer = '';
+    }
+    this.buffer += char;
+    this.lastKeyAt = time;
+
+    const { suffix } = this.config;
+    if (suffix && this.buffer.endsWith(suffix)) {
+      const body = this.buffer.slice(0, -suffix.length);
+      this.buffer = '';
+      return this.complete(body);
+    }
+    return null;
+  }
+
+  /**
+   * End the current burst after a pause. Only used without a suffix, where
+   * silence is the only way to tell a code has finished.
+   */
+  flush(time: number): WedgeScan | null {
+    if (this.config.suffix || this.buffer === '' || time - this.lastKeyAt <= this.config.maxKeyIntervalMs) {
+      return null;
+    }
+    const body = this.buffer;
+    this.buffer = '';
+    return this.complete(body);
+  }
+
+  private complete(body: string): WedgeScan | null {
+    const { prefix, aimIds, minLength } = this.config;
+    if (prefix && !body.startsWith(prefix)) {
+      return null;
+    }
+    const value = body.slice(prefix.length);
+    const scan = aimIds ? parseAimId(value) : { code: value };
+    return scan.code.length >= minLength ? scan : null;
+  }
+}
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+const isTextField = (target: EventTarget | null): target is TextField =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit', 'file', 'range'].includes(target.type));
+
+const keyToChar = (key: string): string | null => {
+  if (key === 'Enter') {
+    return '\r';
+  }
+  if (key === 'Tab') {
+    return '\t';
+  }
+  // Shift, arrows and other named keys aren't part of the code
+  return key.length === 1 ? key : null;
+};
+
+// Through the native setter and an input event, so React's onChange sees the change
+const restoreField = (field: TextField, value: string): void => {
+  if (field.value === value) {
+    return;
+  }
+  const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(field), 'value')?.set;
+  setter?.call(field, value);
+  field.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+/**
+ * Listen for scanner bursts anywhere on the page. Keys are never held back,
+ * so typing is unaffected; once a burst is recognised as a scan, whatever it
+ * typed into a text field is taken out again and its suffix key is swallowed.
+ * Returns a function that stops listening.
+ */
+export const listenForWedgeScans = (config: WedgeConfig, onScan: (scan: WedgeScan) => void): (() => void) => {
+  const detector = new WedgeDetector(config);
+  let snapshot: { field: TextField; value: string } | null = null;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const report = (scan: WedgeScan): void => {
+    if (snapshot) {
+      restoreField(snapshot.field, snapshot.value);
+      snapshot = null;
+    }
+    onScan(scan);
+  };
+
+  const onKeyDown = (event: KeyboardEvent): void => {
+    if (event.ctrlKey || event.altKey || event.metaKey || event.isComposing) {
+      return;
+    }
+    const char = keyToChar(event.key);
+    if (char === null) {
+      return;
+    }
+
+    if (detector.isIdle(event.timeStamp)) {
+      snapshot = isTextField(event.target) ? { field: event.target, value: event.target.value } : null;
+    }
+    const scan = detector.push(char, event.timeStamp);
+    if (scan) {
+      // The suffix would otherwise submit a form, move focus or trigger a handler
+      event.preventDefault();
+      event.stopPropagation();
+      report(scan);
+      return;
+    }
+
+    if (!config.suffix) {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        const flushed = detector.flush(performance.now());
+        if (flushed) {
+          report(flushed);
+        }
+      }, config.maxKeyIntervalMs * 2);
+    }
+  };
+
+  // Capture phase, ahead of the focused element's own key handlers
+  window.addEventListener('keydown', onKeyDown, true);
+  return () => {
+    window.removeEventListener('keydown', onKeyDown, true);
+    clearTimeout(idleTimer);
+  };
+};
@@ -0,0 +1,243 @@
+import type { ScannedItem } from '../types';
+import { encodeBarcode } from './generators/encode';
+import { toSvg } from './generators/render';
+import { BarcodeEncodeError, type GeneratedFormat } from './generators/types';
+
+export type LabelLayoutId = 'avery-l7160' | 'avery-5160' | 'thermal-58' | 'thermal-80';
+
+/**
+ * A page of labels in a regular grid. All sizes in millimetres; thermal
+ * rolls are one label per page.
+ */
+export interface LabelLayout {
+  label: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+  /** Blank border inside each label */
+  padding: number;
+}
+
+export const LABEL_LAYOUTS: Record<LabelLayoutId, LabelLayout> = {
+  'avery-l7160': {
+    label: 'Avery L7160 (A4, 21 per sheet)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.25,
+    gapX: 2.5,
+    gapY: 0,
+    padding: 2.5,
+  },
+  'avery-5160': {
+    label: 'Avery 5160 (Letter, 30 per sheet)',
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.7,
+    labelHeight: 25.4,
+    marginTop: 12.7,
+    marginLeft: 4.8,
+    gapX: 3.1,
+    gapY: 0,
+    padding: 1.5,
+  },
+  'thermal-58': {
+    label: 'Thermal 58 × 40 mm',
+    pageWidth: 58,
+    pageHeight: 40,
+    columns: 1,
+    rows: 1,
+    labelWidth: 58,
+    labelHeight: 40,
+    marginTop: 0,
+    marginLeft: 0,
+    gapX: 0,
+    gapY: 0,
+    // Most 58 mm printers only reach the middle 48 mm
+    padding: 5,
+  },
+  'thermal-80': {
+    label: 'Thermal 80 × 50 mm',
+    pageWidth: 80,
+    pageHeight: 50,
+    columns: 1,
+    rows: 1,
+    labelWidth: 80,
+    labelHeight: 50,
+    marginTop: 0,
+    marginLeft: 0,
+    gapX: 0,
+    gapY: 0,
+    padding: 4,
+  },
+};
+
+export interface LabelOptions {
+  layout: LabelLayoutId;
+  format: GeneratedFormat | 'auto';
+  showName: boolean;
+  showPrice: boolean;
+  /** Labels printed per item */
+  copies: number;
+  /** 1-based position of the first label on the first sheet, to reuse part-used sheets */
+  startPosition: number;
+}
+
+export const DEFAULT_LABEL_OPTIONS: LabelOptions = {
+  layout: 'avery-l7160',
+  format: 'auto',
+  showName: true,
+  showPrice: true,
+  copies: 1,
+  startPosition: 1,
+};
+
+const STORAGE_KEY = 'barcode-scanner.labels';
+
+export const loadLabelOptions = (): LabelOptions => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<LabelOptions> | null;
+    // The start position is per print run, not a preference
+    return { ...DEFAULT_LABEL_OPTIONS, ...stored, startPosition: 1 };
+  } catch {
+    return DEFAULT_LABEL_OPTIONS;
+  }
+};
+
+export const saveLabelOptions = (options: LabelOptions): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.warn('Could not save label settings:', error);
+  }
+};
+
+export interface SkippedLabel {
+  item: ScannedItem;
+  reason: string;
+}
+
+export interface LabelDocument {
+  html: string;
+  labelCount: number;
+  pageCount: number;
+  /** Items whose barcode can't be drawn in the chosen symbology */
+  skipped: SkippedLabel[];
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const labelStyles = (layout: LabelLayout, outlines: boolean): string => `
+@page { size: ${layout.pageWidth}mm ${layout.pageHeight}mm; margin: 0; }
+html, body { margin: 0; padding: 0; background: white; }
+.sheet { position: relative; width: ${layout.pageWidth}mm; height: ${layout.pageHeight}mm; overflow: hidden; }
+.sheet + .sheet { break-before: page; }
+.label {
+  position: absolute; box-sizing: border-box; width: ${layout.labelWidth}mm; height: ${layout.labelHeight}mm;
+  padding: ${layout.padding}mm; display: flex; flex-direction: column; align-items: center; overflow: hidden;
+  font-family: Arial, Helvetica, sans-serif; color: black;${outlines ? ' outline: 0.2mm dashed #bbb;' : ''}
+}
+.label .name { max-width: 100%; font-size: 9pt; font-weight: bold; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+.label .code { flex: 1; min-height: 0; width: 100%; }
+.label .code svg { display: block; width: 100%; height: 100%; }
+.label .price { font-size: 10pt; }
+@media screen { body { background: #eee; } .sheet { margin: 4mm auto; background: white; box-shadow: 0 0 2mm #999; } }
+`;
+
+const labelHtml = (item: ScannedItem, barcodeSvg: string, options: LabelOptions): string =>
+  (options.showName ? `<div class="name">${escapeHtml(item.name)}</div>` : '')
+  + `<div class="code">${barcodeSvg}</div>`
+  + (options.showPrice ? `<div class="price">$${item.price.toFixed(2)}</div>` : '');
+
+/**
+ * A printable HTML document with one label per item and copy, laid out on
+ * sheets (or roll pages) of the chosen layout
+ */
+export const buildLabelDocument = (
+  items: ScannedItem[],
+  options: LabelOptions,
+  preview = false
+): LabelDocument => {
+  const layout = LABEL_LAYOUTS[options.layout];
+  const perPage = layout.columns * layout.rows;
+  const skipped: SkippedLabel[] = [];
+
+  const labels: string[] = [];
+  for (const item of items) {
+    let svg: string;
+    try {
+      svg = toSvg(encodeBarcode(item.barcode, options.format), { moduleWidth: 2, height: 50 });
+    } catch (error) {
+      if (!(error instanceof BarcodeEncodeError)) {
+        throw error;
+      }
+      skipped.push({ item, reason: error.message });
+      continue;
+    }
+    const html = labelHtml(item, svg, options);
+    for (let copy = 0; copy < Math.max(1, options.copies); copy++) {
+      labels.push(html);
+    }
+  }
+
+  const offset = Math.min(Math.max(options.startPosition, 1), perPage) - 1;
+  const pages: string[][] = [];
+  labels.forEach((html, index) => {
+    const slot = index + offset;
+    const page = Math.floor(slot / perPage);
+    const position = slot % perPage;
+    const column = position % layout.columns;
+    const row = Math.floor(position / layout.columns);
+    const left = layout.marginLeft + column * (layout.labelWidth + layout.gapX);
+    const top = layout.marginTop + row * (layout.labelHeight + layout.gapY);
+    if (!pages[page]) {
+      pages[page] = [];
+    }
+    pages[page].push(`<div class="label" style="left: ${left.toFixed(2)}mm; top: ${top.toFixed(2)}mm">${html}</div>`);
+  });
+
+  const body = pages.map(page => `<div class="sheet">${page.join('')}</div>`).join('\n');
+  const html = '<!DOCTYPE html><html><head><meta charset="utf-8"><title>Labels</title>'
+    + `<style>${labelStyles(layout, preview)}</style>`
+    + `</head><body>${body}</body></html>`;
+  return { html, labelCount: labels.length, pageCount: pages.length, skipped };
+};
+
+/**
+ * Prints an HTML document through a hidden iframe, so the app itself isn't
+ * part of the printout
+ */
+export const printDocument = (html: string): void => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.setAttribute('aria-hidden', 'true');
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) {
+      frame.remove();
+      return;
+    }
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,364 @@
+import type { Gs1Fields, ScannedItem, ScanRequest, ScanSource } from '../types';
+import { apiClient, describeApiError, HttpError, NetworkError } from './apiClient';
+import { STORES, promisifyRequest, withStore } from './indexedDb';
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+/** Server-side failures (5xx) give up after this many tries; being offline never does */
+const MAX_SERVER_ATTEMPTS = 8;
+const DEVICE_ID_KEY = 'barcode-scanner.device-id';
+
+export type QueuedScanStatus = 'pending' | 'syncing' | 'failed';
+
+export interface QueuedScan {
+  id: number;
+  barcode: string;
+  source: ScanSource;
+  scannedAt: string;
+  gs1?: Gs1Fields;
+  format?: string;
+  quantity?: number;
+  status: QueuedScanStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface QueueSnapshot {
+  entries: QueuedScan[];
+  pendingCount: number;
+  failedCount: number;
+  isReplaying: boolean;
+  isOnline: boolean;
+  /** Set when the queue's IndexedDB store could not be read or written */
+  storageError?: string;
+}
+
+type SnapshotListener = (snapshot: QueueSnapshot) => void;
+type SyncedListener = (item: ScannedItem, entry: QueuedScan) => void;
+
+/**
+ * Errors worth retrying later: the server was unreachable or temporarily unhappy.
+ * Anything else (4xx, malformed body) will fail the same way on every attempt.
+ */
+const isTransient = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  (error instanceof HttpError && (error.status >= 500 || error.status === 408 || error.status === 429));
+
+const backoffDelay = (attempts: number): number => {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+  // +/-20% jitter so several devices coming back online don't retry in lockstep
+  return Math.round(exponential * (0.8 + Math.random() * 0.4));
+};
+
+let deviceId: string | null = null;
+
+/**
+ * Random id for this browser, kept across reloads. Queue ids restart on
+ * every device, so replayed scans are identified by both.
+ */
+const getDeviceId = (): string => {
+  if (deviceId) {
+    return deviceId;
+  }
+  try {
+    deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+  } catch (error) {
+    console.warn('Could not persist device id:', error);
+    deviceId = deviceId || crypto.randomUUID();
+  }
+  return deviceId;
+};
+
+/**
+ * Scans captured while the API is unreachable, persisted in IndexedDB and
+ * replayed oldest-first with their original timestamps once it is back.
+ */
+export class OfflineScanQueue {
+  private entries: QueuedScan[] = [];
+  private listeners = new Set<SnapshotListener>();
+  private syncedListeners = new Set<SyncedListener>();
+  private replaying = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private startCount = 0;
+  private storageError?: string;
+
+  private readonly handleOnline = (): void => {
+    // Connectivity is back: skip whatever backoff was pending
+    const now = Date.now();
+    this.entries.forEach(entry => {
+      if (entry.status === 'pending') {
+        entry.nextAttemptAt = now;
+      }
+    });
+    this.notify();
+    void this.replay();
+  };
+
+  private readonly handleOffline = (): void => this.notify();
+
+  /**
+   * Load persisted entries and start watching connectivity. Reference counted,
+   * so every start() must be paired with a stop().
+   */
+  async start(): Promise<void> {
+    this.startCount += 1;
+    if (this.startCount === 1) {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
+    await this.load();
+    void this.replay();
+  }
+
+  stop(): void {
+    this.startCount = Math.max(0, this.startCount - 1);
+    if (this.startCount > 0) {
+      return;
+    }
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    this.clearRetryTimer();
+  }
+
+  subscribe(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called for every queued scan the server has accepted
+   */
+  onSynced(listener: SyncedListener): () => void {
+    this.syncedListeners.add(listener);
+    return () => {
+      this.syncedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * True while older scans are still waiting, in which case new scans should
+   * queue behind them rather than overtake them
+   */
+  hasBacklog(): boolean {
+    return this.entries.some(entry => entry.status !== 'failed');
+  }
+
+  async enqueue(request: ScanRequest & { source: ScanSource }, reason?: string): Promise<QueuedScan> {
+    await this.load();
+
+    const record: Omit<QueuedScan, 'id'> = {
+      barcode: request.barcode,
+      source: request.source,
+      scannedAt: request.scannedAt ?? new Date().toISOString(),
+      gs1: request.gs1,
+      format: request.format,
+      quantity: request.quantity,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      lastError: reason,
+    };
+
+    const id = await withStore(STORES.scanQueue, 'readwrite', store =>
+      promisifyRequest(store.add(record))
+    );
+    const entry: QueuedScan = { ...record, id: Number(id) };
+    this.entries.push(entry);
+    this.notify();
+    // A pending timer may be a longer backoff after failures; don't cut it short
+    if (!this.retryTimer) {
+      this.scheduleReplay(backoffDelay(1));
+    }
+    return entry;
+  }
+
+  /**
+   * Put a failed entry back in line for another attempt
+   */
+  async retry(id: number): Promise<void> {
+    const entry = this.entries.find(candidate => candidate.id === id);
+    if (!entry || entry.status !== 'failed') {
+      return;
+    }
+    entry.status = 'pending';
+    entry.attempts = 0;
+    entry.nextAttemptAt = Date.now();
+    try {
+      await this.persist(entry);
+    } catch (error) {
+      this.reportStorageError(error);
+    }
+    this.notify();
+    void this.replay();
+  }
+
+  async discard(id: number): Promise<void> {
+    try {
+      await withStore(STORES.scanQueue, 'readwrite', store => promisifyRequest(store.delete(id)));
+    } catch (error) {
+      this.reportStorageError(error);
+      return;
+    }
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    this.notify();
+  }
+
+  /**
+   * Send pending scans oldest-first. Stops at the first transient failure so
+   * later scans never reach the server before earlier ones. Never rejects:
+   * storage failures are reported through the snapshot instead.
+   */
+  async replay(): Promise<void> {
+    if (this.replaying || !navigator.onLine) {
+      return;
+    }
+
+    this.replaying = true;
+    this.clearRetryTimer();
+    this.notify();
+
+    try {
+      await this.load();
+      this.storageError = undefined;
+      for (;;) {
+        const next = this.entries.find(entry => entry.status === 'pending');
+        if (!next) {
+          break;
+        }
+
+        const wait = next.nextAttemptAt - Date.now();
+        if (wait > 0) {
+          this.scheduleReplay(wait);
+          break;
+        }
+
+        const delivered = await this.deliver(next);
+        if (!delivered && next.status === 'pending') {
+          this.scheduleReplay(next.nextAttemptAt - Date.now());
+          break;
+        }
+      }
+    } catch (error) {
+      this.reportStorageError(error);
+    } finally {
+      this.replaying = false;
+      this.notify();
+    }
+  }
+
+  private async deliver(entry: QueuedScan): Promise<boolean> {
+    entry.status = 'syncing';
+    this.notify();
+
+    let item: ScannedItem;
+    try {
+      item = await apiClient.scan({
+        barcode: entry.barcode,
+        scannedAt: entry.scannedAt,
+        source: entry.source,
+        gs1: entry.gs1,
+        format: entry.format,
+        quantity: entry.quantity,
+        clientScanId: `${getDeviceId()}-${entry.id}`,
+      });
+    } catch (error) {
+      console.error('Error replaying queued scan:', error);
+      entry.attempts += 1;
+      entry.lastError = describeApiError(error, error instanceof Error ? error.message : 'Unknown error');
+
+      const gaveUp = error instanceof HttpError && entry.attempts >= MAX_SERVER_ATTEMPTS;
+      if (isTransient(error) && !gaveUp) {
+        entry.status = 'pending';
+        entry.nextAttemptAt = Date.now() + backoffDelay(entry.attempts);
+      } else {
+        entry.status = 'failed';
+      }
+
+      await this.persist(entry);
+      return false;
+    }
+
+    // Delivered, whatever happens to the row now; a row left behind is resent
+    // after a reload with the same clientScanId, which the server drops
+    this.entries = this.entries.filter(candidate => candidate.id !== entry.id);
+    const synced = { ...item, gs1: item.gs1 ?? entry.gs1, format: item.format ?? entry.format };
+    this.syncedListeners.forEach(listener => listener(synced, entry));
+    try {
+      await withStore(STORES.scanQueue, 'readwrite', store => promisifyRequest(store.delete(entry.id)));
+    } catch (error) {
+      console.error('Error removing delivered scan from the queue:', error);
+    }
+    return true;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = withStore(STORES.scanQueue, 'readonly', store =>
+        promisifyRequest(store.getAll() as IDBRequest<QueuedScan[]>)
+      ).then(records => {
+        // An entry caught mid-flight by a reload never got an answer; send it again
+        this.entries = records
+          .map(record => (record.status === 'syncing' ? { ...record, status: 'pending' as const } : record))
+          .sort((a, b) => a.id - b.id);
+        this.notify();
+      }).catch(error => {
+        console.error('Error loading offline scan queue:', error);
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private persist(entry: QueuedScan): Promise<IDBValidKey> {
+    return withStore(STORES.scanQueue, 'readwrite', store => promisifyRequest(store.put({ ...entry })));
+  }
+
+  private reportStorageError(error: unknown): void {
+    console.error('Error updating offline scan queue:', error);
+    this.storageError = 'Could not read or update the offline queue on this device';
+    this.notify();
+  }
+
+  private scheduleReplay(delayMs: number): void {
+    this.clearRetryTimer();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.replay();
+    }, Math.max(0, delayMs));
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private snapshot(): QueueSnapshot {
+    return {
+      entries: this.entries.map(entry => ({ ...entry })),
+      pendingCount: this.entries.filter(entry => entry.status !== 'failed').length,
+      failedCount: this.entries.filter(entry => entry.status === 'failed').length,
+      isReplaying: this.replaying,
+      isOnline: navigator.onLine,
+      storageError: this.storageError,
+    };
+  }
+
+  private notify(): void {
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const offlineScanQueue = new OfflineScanQueue();
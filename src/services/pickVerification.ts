@@ -0,0 +1,325 @@
+import type { PickCompletion, PickedLine, PickOrder, PickOrderLine, ShortageReason } from '../types';
+import { apiClient, describeApiError } from './apiClient';
+import { canonicalGtin } from './barcodeValidation';
+import { STORES, promisifyRequest, withStore } from './indexedDb';
+
+export type PickPhase = 'idle' | 'loading' | 'picking' | 'completing' | 'completed';
+
+export const SHORTAGE_REASONS: Record<ShortageReason, string> = {
+  out_of_stock: 'Out of stock',
+  damaged: 'Damaged',
+  not_found: 'Not found at location',
+  customer_request: 'Customer request',
+  other: 'Other',
+};
+
+/**
+ * Scans arrive as canonical GTINs, so order lines are held the same way;
+ * otherwise a UPC-A stored as 13 digits would never match its scan
+ */
+const canonicalOrder = (order: PickOrder): PickOrder => ({
+  ...order,
+  lines: order.lines.map(line => ({ ...line, barcode: canonicalGtin(line.barcode) })),
+});
+
+/** An order being picked, persisted so a reload doesn't lose progress */
+interface PickRecord {
+  order: PickOrder;
+  picked: Record<string, number>;
+  reasons: Record<string, ShortageReason>;
+  startedAt: string;
+}
+
+export type PickOutcome =
+  | { status: 'picked'; line: PickLineState }
+  | { status: 'line-complete'; line: PickLineState }
+  | { status: 'wrong-item'; barcode: string }
+  | { status: 'over-pick'; line: PickLineState; attempted: number };
+
+export interface PickLineState extends PickOrderLine {
+  picked: number;
+  shortageReason?: ShortageReason;
+  complete: boolean;
+}
+
+export interface PickAlert {
+  kind: 'wrong-item' | 'over-pick';
+  barcode: string;
+  message: string;
+  /** Distinguishes repeated alerts for the same barcode */
+  at: number;
+}
+
+export interface PickSnapshot {
+  phase: PickPhase;
+  order?: PickOrder;
+  lines: PickLineState[];
+  /** Every line is fully picked or has a shortage reason */
+  canComplete: boolean;
+  lastBarcode?: string;
+  alert?: PickAlert;
+  error?: string;
+  /** Set once the server has accepted the completed order */
+  completedOrderId?: string;
+}
+
+type SnapshotListener = (snapshot: PickSnapshot) => void;
+
+const lineStates = (record: PickRecord): PickLineState[] =>
+  record.order.lines.map(line => {
+    const picked = record.picked[line.barcode] ?? 0;
+    return {
+      ...line,
+      picked,
+      shortageReason: picked < line.quantity ? record.reasons[line.barcode] : undefined,
+      complete: picked >= line.quantity,
+    };
+  });
+
+/**
+ * Verifies picks against an order: correct scans tick lines off, anything not
+ * on the order or beyond the ordered quantity is refused and raises an alert
+ */
+export class PickVerification {
+  private record: PickRecord | null = null;
+  private phase: PickPhase = 'idle';
+  private alert?: PickAlert;
+  private error?: string;
+  private lastBarcode?: string;
+  private completedOrderId?: string;
+  private listeners = new Set<SnapshotListener>();
+  private restorePromise: Promise<void> | null = null;
+
+  subscribe(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot());
+    void this.restore();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * True while scans should be checked against the order
+   */
+  isPicking(): boolean {
+    return this.phase === 'picking';
+  }
+
+  async start(orderId: string): Promise<void> {
+    await this.restore();
+    this.phase = 'loading';
+    this.error = undefined;
+    this.alert = undefined;
+    this.completedOrderId = undefined;
+    this.notify();
+
+    try {
+      const order = await apiClient.getOrder(orderId);
+      this.record = { order: canonicalOrder(order), picked: {}, reasons: {}, startedAt: new Date().toISOString() };
+      this.lastBarcode = undefined;
+      this.phase = 'picking';
+      await this.persist();
+    } catch (error) {
+      console.error('Error loading order:', error);
+      this.phase = 'idle';
+      this.error = describeApiError(error, 'Could not load the order');
+      this.notify();
+      throw error;
+    }
+  }
+
+  /**
+   * Check a scan against the order. Wrong items and over-picks are not counted.
+   */
+  async pick(barcode: string, quantity: number = 1): Promise<PickOutcome | undefined> {
+    if (!this.record || this.phase !== 'picking') {
+      return undefined;
+    }
+
+    const orderLine = this.record.order.lines.find(line => line.barcode === barcode);
+    if (!orderLine) {
+      this.raise('wrong-item', barcode, `${barcode} is not on order ${this.record.order.orderId}`);
+      return { status: 'wrong-item', barcode };
+    }
+
+    const current = this.record.picked[barcode] ?? 0;
+    if (current + quantity > orderLine.quantity) {
+      const line = this.lineState(barcode)!;
+      this.raise(
+        'over-pick',
+        barcode,
+        `Over-pick: ${orderLine.name ?? barcode} needs ${orderLine.quantity}, already picked ${current}`
+      );
+      return { status: 'over-pick', line, attempted: current + quantity };
+    }
+
+    this.record.picked[barcode] = current + quantity;
+    delete this.record.reasons[barcode];
+    this.alert = undefined;
+    this.lastBarcode = barcode;
+    await this.persist();
+    const line = this.lineState(barcode)!;
+    return { status: line.complete ? 'line-complete' : 'picked', line };
+  }
+
+  /**
+   * Take back picks for a line, e.g. after putting an item back on the shelf
+   */
+  async setPicked(barcode: string, picked: number): Promise<void> {
+    const orderLine = this.record?.order.lines.find(line => line.barcode === barcode);
+    if (!this.record || !orderLine || !Number.isFinite(picked)) {
+      return;
+    }
+    this.record.picked[barcode] = Math.min(orderLine.quantity, Math.max(0, Math.floor(picked)));
+    await this.persist();
+  }
+
+  async setShortageReason(barcode: string, reason: ShortageReason | null): Promise<void> {
+    if (!this.record) {
+      return;
+    }
+    if (reason) {
+      this.record.reasons[barcode] = reason;
+    } else {
+      delete this.record.reasons[barcode];
+    }
+    await this.persist();
+  }
+
+  dismissAlert(): void {
+    this.alert = undefined;
+    this.notify();
+  }
+
+  /**
+   * Report the order as picked. Refused while any short line lacks a reason.
+   */
+  async complete(): Promise<string | undefined> {
+    if (!this.record || this.phase !== 'picking') {
+      return undefined;
+    }
+    if (!this.canComplete()) {
+      throw new Error('Every short line needs a reason before the order can be completed');
+    }
+
+    const completion: PickCompletion = {
+      orderId: this.record.order.orderId,
+      startedAt: this.record.startedAt,
+      completedAt: new Date().toISOString(),
+      lines: lineStates(this.record).map((line): PickedLine => ({
+        barcode: line.barcode,
+        ordered: line.quantity,
+        picked: line.picked,
+        shortageReason: line.shortageReason,
+      })),
+    };
+
+    this.phase = 'completing';
+    this.error = undefined;
+    this.notify();
+    try {
+      const message = await apiClient.completeOrder(completion);
+      this.phase = 'completed';
+      this.completedOrderId = completion.orderId;
+      await this.clear();
+      return message;
+    } catch (error) {
+      console.error('Error completing order:', error);
+      this.phase = 'picking';
+      this.error = describeApiError(error, 'Could not complete the order');
+      this.notify();
+      throw error;
+    }
+  }
+
+  /**
+   * Abandon the order in progress, or dismiss a completed one
+   */
+  async cancel(): Promise<void> {
+    this.phase = 'idle';
+    this.alert = undefined;
+    this.error = undefined;
+    this.completedOrderId = undefined;
+    await this.clear();
+  }
+
+  private canComplete(): boolean {
+    return !!this.record && lineStates(this.record).every(line => line.complete || line.shortageReason);
+  }
+
+  private lineState(barcode: string): PickLineState | undefined {
+    return this.record ? lineStates(this.record).find(line => line.barcode === barcode) : undefined;
+  }
+
+  private raise(kind: PickAlert['kind'], barcode: string, message: string): void {
+    this.alert = { kind, barcode, message, at: Date.now() };
+    this.lastBarcode = barcode;
+    this.notify();
+  }
+
+  private restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = withStore(STORES.picks, 'readonly', store =>
+        promisifyRequest(store.getAll() as IDBRequest<PickRecord[]>)
+      ).then(records => {
+        if (records[0] && !this.record) {
+          this.record = { ...records[0], order: canonicalOrder(records[0].order) };
+          this.phase = 'picking';
+          this.notify();
+        }
+      }).catch(error => {
+        console.error('Error restoring pick:', error);
+      });
+    }
+    return this.restorePromise;
+  }
+
+  private async persist(): Promise<void> {
+    this.notify();
+    const record = this.record;
+    if (!record) {
+      return;
+    }
+    try {
+      await withStore(STORES.picks, 'readwrite', store => {
+        // Only one order is picked at a time
+        store.clear();
+        return promisifyRequest(store.put(structuredClone(record)));
+      });
+    } catch (error) {
+      console.error('Error saving pick:', error);
+    }
+  }
+
+  private async clear(): Promise<void> {
+    this.record = null;
+    this.lastBarcode = undefined;
+    this.notify();
+    try {
+      await withStore(STORES.picks, 'readwrite', store => promisifyRequest(store.clear()));
+    } catch (error) {
+      console.error('Error clearing pick:', error);
+    }
+  }
+
+  private snapshot(): PickSnapshot {
+    return {
+      phase: this.phase,
+      order: this.record?.order,
+      lines: this.record ? lineStates(this.record) : [],
+      canComplete: this.canComplete(),
+      lastBarcode: this.lastBarcode,
+      alert: this.alert,
+      error: this.error,
+      completedOrderId: this.completedOrderId,
+    };
+  }
+
+  private notify(): void {
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const pickVerification = new PickVerification();
@@ -0,0 +1,406 @@
+import { validateBarcode } from './barcodeValidation';
+import { Gs1ParseError, parseGs1, parseGs1DigitalLink, type Gs1ParseResult } from './gs1';
+
+/**
+ * QR codes carry far more than product numbers. A decoded payload is
+ * classified first, and only product-like ones are looked up on the server;
+ * the rest are shown to the user with actions that suit them.
+ */
+
+export interface ContactCard {
+  source: 'vcard' | 'mecard';
+  name?: string;
+  organization?: string;
+  title?: string;
+  phones: string[];
+  emails: string[];
+  urls: string[];
+  address?: string;
+  note?: string;
+}
+
+export interface WifiNetwork {
+  ssid: string;
+  /** As written in the code: WPA, WEP, SAE, ... or nopass */
+  security: string;
+  password?: string;
+  hidden: boolean;
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  /** Place name or search from the ?q= parameter */
+  query?: string;
+}
+
+export type QrPayload =
+  | { kind: 'product'; code: string; gs1?: Gs1ParseResult }
+  | { kind: 'digital-link'; url: string; gs1: Gs1ParseResult }
+  | { kind: 'url'; url: string; host: string; warnings: string[] }
+  | { kind: 'contact'; contact: ContactCard; raw: string }
+  | { kind: 'wifi'; network: WifiNetwork }
+  | { kind: 'geo'; location: GeoLocation }
+  | { kind: 'asset'; id: string; fields: [string, string][] }
+  | { kind: 'json'; value: unknown }
+  | { kind: 'text'; text: string };
+
+export type QrPayloadKind = QrPayload['kind'];
+
+export const QR_PAYLOAD_LABELS: Record<QrPayloadKind, string> = {
+  product: 'Product code',
+  'digital-link': 'GS1 Digital Link',
+  url: 'Link',
+  contact: 'Contact',
+  wifi: 'Wi-Fi network',
+  geo: 'Location',
+  asset: 'Asset tag',
+  json: 'JSON data',
+  text: 'Text',
+};
+
+/** `type` of the JSON our own asset tags carry, e.g. {"type":"asset","id":"AT-00042","location":"Lab 2"} */
+export const ASSET_TAG_TYPE = 'asset';
+
+// SKU-like codes: a single short token with at least one digit, e.g. "SKU-10442"
+const SIMPLE_CODE = /^(?=.*\d)[A-Za-z0-9][A-Za-z0-9\-._]{0,47}$/;
+
+/** Splits MeCard-style `KEY:value;KEY:value;;` bodies, honouring backslash escapes */
+const parseFieldList = (body: string): [string, string][] => {
+  const fields: [string, string][] = [];
+  let key = '';
+  let value = '';
+  let inValue = false;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      value += body[++i];
+      continue;
+    }
+    if (!inValue && char === ':') {
+      key = value;
+      value = '';
+      inValue = true;
+    } else if (char === ';') {
+      if (inValue) {
+        fields.push([key.toUpperCase(), value]);
+      }
+      key = '';
+      value = '';
+      inValue = false;
+    } else {
+      value += char;
+    }
+  }
+  if (inValue) {
+    fields.push([key.toUpperCase(), value]);
+  }
+  return fields;
+};
+
+const fieldValues = (fields: [string, string][], key: string): string[] =>
+  fields.filter(([name, value]) => name === key && value).map(([, value]) => value);
+
+const parseWifi = (text: string): WifiNetwork | null => {
+  const fields = parseFieldList(text.slice('WIFI:'.length));
+  const ssid = fieldValues(fields, 'S')[0];
+  if (!ssid) {
+    return null;
+  }
+  return {
+    ssid,
+    security: fieldValues(fields, 'T')[0] ?? 'nopass',
+    password: fieldValues(fields, 'P')[0],
+    hidden: fieldValues(fields, 'H')[0]?.toLowerCase() === 'true',
+  };
+};
+
+const parseMeCard = (text: string): ContactCard => {
+  const fields = parseFieldList(text.slice('MECARD:'.length));
+  // N is "Last,First"
+  const [last, first] = (fieldValues(fields, 'N')[0] ?? '').split(',');
+  const name = [first, last].filter(Boolean).join(' ');
+  return {
+    source: 'mecard',
+    name: name || undefined,
+    organization: fieldValues(fields, 'ORG')[0],
+    phones: fieldValues(fields, 'TEL'),
+    emails: fieldValues(fields, 'EMAIL'),
+    urls: fieldValues(fields, 'URL'),
+    address: fieldValues(fields, 'ADR')[0],
+    note: fieldValues(fields, 'NOTE')[0],
+  };
+};
+
+const unescapeVCard = (value: string): string =>
+  value.replace(/\\([nN,;\\])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const parseVCard = (text: string): ContactCard => {
+  // Folded lines continue with a leading space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const properties: [string, string][] = [];
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      continue;
+    }
+    // "item1.TEL;TYPE=CELL" -> "TEL"
+    const name = line.slice(0, colon).split(';')[0].split('.').pop() ?? '';
+    properties.push([name.toUpperCase(), line.slice(colon + 1)]);
+  }
+  const first = (key: string): string | undefined => fieldValues(properties, key)[0];
+  const structuredName = first('N')?.split(';').map(unescapeVCard);
+  const address = first('ADR')?.split(';').map(unescapeVCard).filter(Boolean).join(', ');
+
+  return {
+    source: 'vcard',
+    name: (first('FN') && unescapeVCard(first('FN') as string))
+      || (structuredName && [structuredName[1], structuredName[0]].filter(Boolean).join(' '))
+      || undefined,
+    organization: first('ORG')?.split(';').map(unescapeVCard).filter(Boolean).join(', '),
+    title: first('TITLE') && unescapeVCard(first('TITLE') as string),
+    phones: fieldValues(properties, 'TEL').map(value => unescapeVCard(value.replace(/^tel:/i, ''))),
+    emails: fieldValues(properties, 'EMAIL').map(unescapeVCard),
+    urls: fieldValues(properties, 'URL').map(unescapeVCard),
+    address: address || undefined,
+    note: first('NOTE') && unescapeVCard(first('NOTE') as string),
+  };
+};
+
+/** geo:lat,lon[,alt][;params][?q=...] (RFC 5870) */
+const parseGeo = (text: string): GeoLocation | null => {
+  const match = /^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)(?:,(-?\d+(?:\.\d+)?))?(?:;[^?]*)?(?:\?(.*))?$/i.exec(text);
+  if (!match) {
+    return null;
+  }
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+  const query = match[4] ? new URLSearchParams(match[4]).get('q') ?? undefined : undefined;
+  return { latitude, longitude, altitude: match[3] ? Number(match[3]) : undefined, query };
+};
+
+/** Things about a link worth pointing out before anyone opens it */
+const urlWarnings = (url: URL): string[] => {
+  const warnings: string[] = [];
+  if (url.protocol === 'http:') {
+    warnings.push('Not encrypted (http)');
+  }
+  if (url.username || url.password) {
+    // https://shop.example@evil.test/ goes to evil.test
+    warnings.push('Contains a user name, which can disguise the real site');
+  }
+  if (url.hostname.split('.').some(label => label.startsWith('xn--'))) {
+    warnings.push('Uses international characters that can imitate another domain');
+  }
+  if (/^[\d.]+$/.test(url.hostname) || url.hostname.startsWith('[')) {
+    warnings.push('Points at an IP address rather than a domain');
+  }
+  return warnings;
+};
+
+const classifyJson = (text: string): QrPayload | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    if (record.type === ASSET_TAG_TYPE && typeof record.id === 'string' && record.id) {
+      const fields = Object.entries(record)
+        .filter(([key, field]) => key !== 'type' && key !== 'id' && ['string', 'number', 'boolean'].includes(typeof field))
+        .map(([key, field]): [string, string] => [key, String(field)]);
+      return { kind: 'asset', id: record.id, fields };
+    }
+  }
+  return { kind: 'json', value };
+};
+
+const classifyUrl = (text: string): QrPayload | null => {
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+  try {
+    const gs1 = parseGs1DigitalLink(text);
+    if (gs1) {
+      return { kind: 'digital-link', url: url.href, gs1 };
+    }
+  } catch {
+    // A malformed Digital Link (bad AI, bad percent-escape) is still a link
+  }
+  return { kind: 'url', url: url.href, host: url.hostname, warnings: urlWarnings(url) };
+};
+
+/**
+ * What a decoded QR payload is. Unrecognised content comes back as text.
+ */
+export const classifyQrPayload = (data: string): QrPayload => {
+  const text = data.trim();
+
+  if (/^https?:\/\//i.test(text)) {
+    return classifyUrl(text) ?? { kind: 'text', text };
+  }
+  if (/^BEGIN:VCARD/i.test(text)) {
+    return { kind: 'contact', contact: parseVCard(text), raw: text };
+  }
+  if (/^MECARD:/i.test(text)) {
+    return { kind: 'contact', contact: parseMeCard(text), raw: text };
+  }
+  if (/^WIFI:/i.test(text)) {
+    const network = parseWifi(text);
+    return network ? { kind: 'wifi', network } : { kind: 'text', text };
+  }
+  if (/^geo:/i.test(text)) {
+    const location = parseGeo(text);
+    return location ? { kind: 'geo', location } : { kind: 'text', text };
+  }
+  if (text.startsWith('{') || text.startsWith('[')) {
+    const json = classifyJson(text);
+    if (json) {
+      return json;
+    }
+  }
+
+  // QR is a GS1 carrier, so bare AI strings count too
+  try {
+    const gs1 = parseGs1(text, { assumeGs1: true });
+    if (gs1) {
+      return { kind: 'product', code: text, gs1 };
+    }
+  } catch (error) {
+    if (!(error instanceof Gs1ParseError)) {
+      throw error;
+    }
+  }
+  // Free text passes validateBarcode, so only a verified check digit counts here
+  if (validateBarcode(text).checkDigitVerified || SIMPLE_CODE.test(text)) {
+    return { kind: 'product', code: text };
+  }
+  return { kind: 'text', text };
+};
+
+/**
+ * Payloads that identify a product and belong in /api/scan
+ */
+export const isProductPayload = (payload: QrPayload): boolean =>
+  payload.kind === 'product' || (payload.kind === 'digital-link' && payload.gs1.gtin !== undefined);
+
+/**
+ * One-line summary for the status message
+ */
+export const describeQrPayload = (payload: QrPayload): string => {
+  switch (payload.kind) {
+    case 'product':
+      return payload.code;
+    case 'digital-link':
+      return payload.gs1.gtin ?? payload.url;
+    case 'url':
+      return payload.host;
+    case 'contact':
+      return payload.contact.name ?? payload.contact.organization ?? payload.contact.emails[0] ?? 'unnamed contact';
+    case 'wifi':
+      return payload.network.ssid;
+    case 'geo':
+      return payload.location.query ?? `${payload.location.latitude}, ${payload.location.longitude}`;
+    case 'asset':
+      return payload.id;
+    case 'json':
+      return Array.isArray(payload.value) ? `${payload.value.length} entries` : 'object';
+    case 'text':
+      return payload.text.length > 40 ? `${payload.text.slice(0, 40)}…` : payload.text;
+  }
+};
+
+/**
+ * vCard 3.0 text for a contact, for saving to the address book
+ */
+export const contactToVCard = (contact: ContactCard): string => {
+  const escape = (value: string): string => value.replace(/([\\,;])/g, '\\$1').replace(/\n/g, '\\n');
+  const lines = ['BEGIN:VCARD', 'VERSION:3.0', `FN:${escape(contact.name ?? contact.organization ?? '')}`];
+  if (contact.organization) {
+    lines.push(`ORG:${escape(contact.organization)}`);
+  }
+  if (contact.title) {
+    lines.push(`TITLE:${escape(contact.title)}`);
+  }
+  contact.phones.forEach(phone => lines.push(`TEL:${escape(phone)}`));
+  contact.emails.forEach(email => lines.push(`EMAIL:${escape(email)}`));
+  contact.urls.forEach(url => lines.push(`URL:${escape(url)}`));
+  if (contact.address) {
+    lines.push(`ADR:;;${escape(contact.address)};;;;`);
+  }
+  if (contact.note) {
+    lines.push(`NOTE:${escape(contact.note)}`);
+  }
+  lines.push('END:VCARD');
+  return lines.join('\r\n');
+};
+
+// --- Link allowlist
+
+const ALLOWLIST_KEY = 'barcode-scanner.link-allowlist';
+
+/** Normalises "Shop.Example.com", "https://shop.example.com/x" or an IDN to a bare ASCII host */
+export const normalizeDomain = (domain: string): string | null => {
+  const value = domain.trim().toLowerCase().replace(/^\*\./, '');
+  if (!value) {
+    return null;
+  }
+  try {
+    return new URL(value.includes('://') ? value : `https://${value}`).hostname || null;
+  } catch {
+    return null;
+  }
+};
+
+const defaultAllowlist = (): string[] =>
+  (import.meta.env.VITE_LINK_ALLOWLIST ?? '')
+    .split(',')
+    .map(normalizeDomain)
+    .filter((domain): domain is string => domain !== null);
+
+export const loadLinkAllowlist = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ALLOWLIST_KEY) ?? 'null') as unknown;
+    return Array.isArray(stored) && stored.every(domain => typeof domain === 'string') ? stored : defaultAllowlist();
+  } catch {
+    return defaultAllowlist();
+  }
+};
+
+export const saveLinkAllowlist = (domains: string[]): void => {
+  try {
+    localStorage.setItem(ALLOWLIST_KEY, JSON.stringify(domains));
+  } catch (error) {
+    console.warn('Could not save link allowlist:', error);
+  }
+};
+
+/**
+ * Whether a link may be offered as clickable: https, no embedded user name,
+ * and a host that is an allowlisted domain or a subdomain of one
+ */
+export const isAllowedLink = (href: string, allowlist: string[]): boolean => {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) {
+    return false;
+  }
+  const host = url.hostname;
+  return allowlist.some(domain => host === domain || host.endsWith(`.${domain}`));
+};
@@ -0,0 +1,166 @@
+export interface ConfirmationPolicy {
+  /** Matching reads needed before a barcode counts as scanned */
+  requiredMatches: number;
+  /** Reads older than this no longer count towards confirmation */
+  windowMs: number;
+  /** After a confirmed scan, the same barcode is ignored for this long */
+  cooldownMs: number;
+  /** Ask before accepting the same barcode twice in a row */
+  promptOnRepeat: boolean;
+  /** Reads whose mean per-character error is above this are discarded as misreads */
+  maxMeanError: number;
+}
+
+export const DEFAULT_CONFIRMATION_POLICY: ConfirmationPolicy = {
+  requiredMatches: 3,
+  windowMs: 1500,
+  cooldownMs: 3000,
+  promptOnRepeat: false,
+  maxMeanError: 0.3,
+};
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export interface ScanConfidence {
+  /** Number of agreeing reads the summary was built from */
+  reads: number;
+  meanError: number;
+  maxError: number;
+  level: ConfidenceLevel;
+}
+
+/**
+ * One raw decode from the camera, with Quagga's per-character error values
+ */
+export interface ScanRead {
+  barcode: string;
+  format?: string;
+  errors: number[];
+}
+
+export type ConfirmationDecision =
+  | { status: 'pending'; matches: number; required: number }
+  | { status: 'rejected'; reason: string }
+  | { status: 'suppressed' }
+  | { status: 'confirmed'; barcode: string; format?: string; confidence: ScanConfidence; isRepeat: boolean };
+
+interface Candidate {
+  timestamps: number[];
+  errors: number[][];
+}
+
+const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Quagga's own guidance: a mean error under ~0.1 is a clean read,
+ * above ~0.2 it is more likely noise than a barcode
+ */
+const levelFor = (meanError: number): ConfidenceLevel => {
+  if (meanError < 0.1) return 'high';
+  if (meanError < 0.2) return 'medium';
+  return 'low';
+};
+
+/**
+ * Summarise per-character errors from one or more reads of the same barcode
+ */
+export const summarizeConfidence = (reads: number[][]): ScanConfidence => {
+  const all = reads.flat();
+  const meanError = mean(all);
+  return {
+    reads: reads.length,
+    meanError,
+    maxError: all.length > 0 ? Math.max(...all) : 0,
+    level: levelFor(meanError),
+  };
+};
+
+/**
+ * Turns a stream of camera reads into confirmed scans: a barcode has to be
+ * read N times within a time window, and is then ignored for a cooldown.
+ */
+export class ScanConfirmationFilter {
+  private policy: ConfirmationPolicy;
+  private candidates = new Map<string, Candidate>();
+  private cooldowns = new Map<string, number>();
+  private lastConfirmed: string | null = null;
+
+  constructor(policy: Partial<ConfirmationPolicy> = {}) {
+    this.policy = { ...DEFAULT_CONFIRMATION_POLICY, ...policy };
+  }
+
+  setPolicy(policy: Partial<ConfirmationPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
+  getPolicy(): ConfirmationPolicy {
+    return { ...this.policy };
+  }
+
+  push(read: ScanRead, now: number = Date.now()): ConfirmationDecision {
+    this.prune(now);
+
+    const cooldownUntil = this.cooldowns.get(read.barcode);
+    if (cooldownUntil !== undefined && cooldownUntil > now) {
+      return { status: 'suppressed' };
+    }
+
+    const readError = mean(read.errors);
+    if (read.errors.length > 0 && readError > this.policy.maxMeanError) {
+      return { status: 'rejected', reason: `Mean error ${readError.toFixed(2)} above ${this.policy.maxMeanError}` };
+    }
+
+    const key = this.keyFor(read);
+    const candidate = this.candidates.get(key) ?? { timestamps: [], errors: [] };
+    candidate.timestamps.push(now);
+    candidate.errors.push(read.errors);
+    this.candidates.set(key, candidate);
+
+    const required = Math.max(1, this.policy.requiredMatches);
+    if (candidate.timestamps.length < required) {
+      return { status: 'pending', matches: candidate.timestamps.length, required };
+    }
+
+    this.candidates.delete(key);
+    this.cooldowns.set(read.barcode, now + this.policy.cooldownMs);
+    const isRepeat = this.lastConfirmed === read.barcode;
+    this.lastConfirmed = read.barcode;
+
+    return {
+      status: 'confirmed',
+      barcode: read.barcode,
+      format: read.format,
+      confidence: summarizeConfidence(candidate.errors),
+      isRepeat,
+    };
+  }
+
+  reset(): void {
+    this.candidates.clear();
+    this.cooldowns.clear();
+    this.lastConfirmed = null;
+  }
+
+  private keyFor(read: ScanRead): string {
+    return `${read.format ?? ''}:${read.barcode}`;
+  }
+
+  private prune(now: number): void {
+    const oldest = now - this.policy.windowMs;
+    this.candidates.forEach((candidate, key) => {
+      while (candidate.timestamps.length > 0 && candidate.timestamps[0] < oldest) {
+        candidate.timestamps.shift();
+        candidate.errors.shift();
+      }
+      if (candidate.timestamps.length === 0) {
+        this.candidates.delete(key);
+      }
+    });
+    this.cooldowns.forEach((until, barcode) => {
+      if (until <= now) {
+        this.cooldowns.delete(barcode);
+      }
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import { ERROR_TONES, ERROR_VIBRATION, playTones, vibrate, type Tone } from './alerts';
+
+/**
+ * How a scan ended, as far as the operator needs to know without looking:
+ * recorded, recorded again, not in the catalog, rejected before sending,
+ * queued while offline, or refused (wrong pick, server error)
+ */
+export type ScanOutcome = 'success' | 'duplicate' | 'unknown' | 'invalid' | 'queued' | 'error';
+
+export type FeedbackProfileId = 'standard' | 'loud' | 'discreet';
+
+export interface OutcomeFeedback {
+  tones: Tone[];
+  vibration: number[];
+  /** Colour of the full-screen flash */
+  flash: string;
+}
+
+export interface FeedbackSettings {
+  profile: FeedbackProfileId;
+  /** 0-1 */
+  volume: number;
+  muted: boolean;
+  vibration: boolean;
+  flash: boolean;
+}
+
+export interface FlashEvent {
+  id: number;
+  outcome: ScanOutcome;
+  color: string;
+}
+
+type SettingsListener = (settings: FeedbackSettings) => void;
+type FlashListener = (event: FlashEvent) => void;
+
+const beep = (frequency: number, duration: number, gap = 0.06): Tone => ({ frequency, duration, type: 'sine', gap });
+
+const STANDARD: Record<ScanOutcome, OutcomeFeedback> = {
+  success: { tones: [beep(1800, 0.08)], vibration: [60], flash: '#28a745' },
+  duplicate: { tones: [beep(1800, 0.06), beep(1800, 0.06)], vibration: [60, 60, 60], flash: '#17a2b8' },
+  unknown: { tones: [beep(660, 0.12), beep(990, 0.16)], vibration: [150, 80, 150], flash: '#ffc107' },
+  invalid: {
+    tones: [{ frequency: 440, duration: 0.15, type: 'square', gap: 0.05 }, { frequency: 300, duration: 0.25, type: 'square' }],
+    vibration: [300],
+    flash: '#fd7e14',
+  },
+  queued: { tones: [beep(1200, 0.1), beep(900, 0.1)], vibration: [40, 40, 40, 40, 40], flash: '#6c757d' },
+  error: { tones: ERROR_TONES, vibration: ERROR_VIBRATION, flash: '#dc3545' },
+};
+
+const mapOutcomes = (map: (feedback: OutcomeFeedback) => OutcomeFeedback): Record<ScanOutcome, OutcomeFeedback> =>
+  Object.fromEntries(
+    Object.entries(STANDARD).map(([outcome, feedback]) => [outcome, map(feedback)])
+  ) as Record<ScanOutcome, OutcomeFeedback>;
+
+export const FEEDBACK_PROFILES: Record<FeedbackProfileId, { label: string; outcomes: Record<ScanOutcome, OutcomeFeedback> }> = {
+  standard: { label: 'Standard', outcomes: STANDARD },
+  // Square waves and longer tones carry over conveyor and forklift noise
+  loud: {
+    label: 'Loud (warehouse)',
+    outcomes: mapOutcomes(feedback => ({
+      ...feedback,
+      tones: feedback.tones.map(tone => ({ ...tone, type: 'square', duration: tone.duration * 1.5 })),
+    })),
+  },
+  // For shop floors with customers: vibration and flash only
+  discreet: { label: 'Discreet (no sound)', outcomes: mapOutcomes(feedback => ({ ...feedback, tones: [] })) },
+};
+
+export const DEFAULT_FEEDBACK_SETTINGS: FeedbackSettings = {
+  profile: 'standard',
+  volume: 0.6,
+  muted: false,
+  vibration: true,
+  flash: true,
+};
+
+const STORAGE_KEY = 'barcode-scanner.feedback';
+
+const loadSettings = (): FeedbackSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<FeedbackSettings> | null;
+    const settings = { ...DEFAULT_FEEDBACK_SETTINGS, ...stored };
+    return settings.profile in FEEDBACK_PROFILES ? settings : { ...settings, profile: DEFAULT_FEEDBACK_SETTINGS.profile };
+  } catch {
+    return DEFAULT_FEEDBACK_SETTINGS;
+  }
+};
+
+/**
+ * Sound, vibration and a screen flash for each scan outcome, so operators
+ * watching the shelf know what happened. The scan pipeline signals each
+ * outcome once; this decides what the operator gets from it.
+ */
+export class ScanFeedback {
+  private settings: FeedbackSettings = loadSettings();
+  private listeners = new Set<SettingsListener>();
+  private flashListeners = new Set<FlashListener>();
+  private nextFlashId = 0;
+
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    listener(this.settings);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onFlash(listener: FlashListener): () => void {
+    this.flashListeners.add(listener);
+    return () => {
+      this.flashListeners.delete(listener);
+    };
+  }
+
+  getSettings(): FeedbackSettings {
+    return this.settings;
+  }
+
+  updateSettings(changes: Partial<FeedbackSettings>): void {
+    this.settings = { ...this.settings, ...changes };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Could not save feedback settings:', error);
+    }
+    this.listeners.forEach(listener => listener(this.settings));
+  }
+
+  signal(outcome: ScanOutcome): void {
+    const { profile, volume, muted, vibration, flash } = this.settings;
+    const feedback = FEEDBACK_PROFILES[profile].outcomes[outcome];
+    if (!muted) {
+      playTones(feedback.tones, volume);
+    }
+    if (vibration) {
+      vibrate(feedback.vibration);
+    }
+    if (flash) {
+      const event = { id: ++this.nextFlashId, outcome, color: feedback.flash };
+      this.flashListeners.forEach(listener => listener(event));
+    }
+  }
+}
+
+export const scanFeedback = new ScanFeedback();
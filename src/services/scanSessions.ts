@@ -0,0 +1,315 @@
+import type { Gs1Fields } from '../types';
+import { STORES, promisifyRequest, withStore } from './indexedDb';
+
+export type ScanSessionStatus = 'active' | 'paused';
+
+export interface SessionLine {
+  /** Barcode plus GS1 lot/serial, so different batches of one product stay separate */
+  key: string;
+  barcode: string;
+  name: string;
+  price: number;
+  quantity: number;
+  gs1?: Gs1Fields;
+  format?: string;
+  /** Scanned while offline and not yet confirmed by the server; price may be missing */
+  unconfirmed?: boolean;
+  lastScannedAt: string;
+  /** Quantities before each change, newest last; undo pops back through them */
+  history: number[];
+}
+
+export interface ScanSession {
+  id: string;
+  name: string;
+  status: ScanSessionStatus;
+  createdAt: string;
+  updatedAt: string;
+  lines: SessionLine[];
+}
+
+export interface SessionScan {
+  barcode: string;
+  name: string;
+  price: number;
+  gs1?: Gs1Fields;
+  format?: string;
+  unconfirmed?: boolean;
+}
+
+export interface SessionsSnapshot {
+  sessions: ScanSession[];
+  active: ScanSession | null;
+  /** Quantity the next scan will be counted as, set with e.g. "12*" */
+  nextMultiplier: number;
+}
+
+type SnapshotListener = (snapshot: SessionsSnapshot) => void;
+
+export const lineKey = (barcode: string, gs1?: Gs1Fields): string =>
+  [barcode, gs1?.['10'], gs1?.['21']].filter(Boolean).join('|');
+
+export const sessionTotal = (session: ScanSession): number =>
+  session.lines.reduce((total, line) => total + line.price * line.quantity, 0);
+
+export const sessionItemCount = (session: ScanSession): number =>
+  session.lines.reduce((total, line) => total + line.quantity, 0);
+
+const newSessionName = (): string => `Session ${new Date().toLocaleString()}`;
+
+/**
+ * Named scan sessions that aggregate scans into lines with quantities.
+ * One session is active at a time; the rest are paused and can be resumed.
+ * Sessions are kept in IndexedDB so they survive reloads.
+ */
+export class ScanSessionManager {
+  private sessions: ScanSession[] = [];
+  private listeners = new Set<SnapshotListener>();
+  private nextMultiplier = 1;
+  private loadPromise: Promise<void> | null = null;
+
+  subscribe(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot());
+    void this.load().catch(() => undefined);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start a new session, pausing the current one
+   */
+  async create(name: string = newSessionName()): Promise<ScanSession> {
+    await this.load();
+    await this.pauseActive();
+    const now = new Date().toISOString();
+    const session: ScanSession = {
+      id: crypto.randomUUID(),
+      name: name.trim() || newSessionName(),
+      status: 'active',
+      createdAt: now,
+      updatedAt: now,
+      lines: [],
+    };
+    this.sessions.push(session);
+    await this.persist(session);
+    return session;
+  }
+
+  async pause(id: string): Promise<void> {
+    await this.update(id, session => {
+      session.status = 'paused';
+    });
+  }
+
+  /**
+   * Make a paused session the active one again
+   */
+  async resume(id: string): Promise<void> {
+    await this.load();
+    await this.pauseActive();
+    await this.update(id, session => {
+      session.status = 'active';
+    });
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    await this.update(id, session => {
+      session.name = name.trim() || session.name;
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    await withStore(STORES.sessions, 'readwrite', store => promisifyRequest(store.delete(id)));
+    this.sessions = this.sessions.filter(session => session.id !== id);
+    this.notify();
+  }
+
+  /**
+   * Count the next scan `quantity` times. Applies once, then resets to 1.
+   */
+  setNextMultiplier(quantity: number): void {
+    this.nextMultiplier = Math.max(1, Math.floor(quantity));
+    this.notify();
+  }
+
+  /**
+   * Quantity for the scan being processed now; resets the multiplier to 1
+   */
+  takeMultiplier(): number {
+    const quantity = this.nextMultiplier;
+    if (quantity !== 1) {
+      this.nextMultiplier = 1;
+      this.notify();
+    }
+    return quantity;
+  }
+
+  /**
+   * Add a scan to the active session (starting one if needed), merging it into
+   * an existing line for the same barcode/lot/serial
+   */
+  async addScan(scan: SessionScan, quantity: number): Promise<SessionLine> {
+    await this.load();
+    const session = this.getActive() ?? await this.create();
+    const key = lineKey(scan.barcode, scan.gs1);
+    const now = new Date().toISOString();
+
+    let line = session.lines.find(candidate => candidate.key === key);
+    if (line) {
+      line.history.push(line.quantity);
+      line.quantity += quantity;
+      line.lastScannedAt = now;
+      if (!scan.unconfirmed) {
+        line.name = scan.name;
+        line.price = scan.price;
+        line.unconfirmed = false;
+      }
+    } else {
+      line = { ...scan, key, quantity, lastScannedAt: now, history: [0] };
+      session.lines.unshift(line);
+    }
+    session.updatedAt = now;
+    await this.persist(session);
+    return { ...line };
+  }
+
+  /**
+   * Fill in name and price once the server confirms a scan made offline
+   */
+  async confirmProduct(barcode: string, name: string, price: number): Promise<void> {
+    await this.load();
+    for (const session of this.sessions) {
+      const lines = session.lines.filter(line => line.barcode === barcode && line.unconfirmed);
+      if (lines.length === 0) {
+        continue;
+      }
+      lines.forEach(line => {
+        line.name = name;
+        line.price = price;
+        line.unconfirmed = false;
+      });
+      await this.persist(session);
+    }
+  }
+
+  /**
+   * Set a line's quantity; zero or less removes the line
+   */
+  async setQuantity(sessionId: string, key: string, quantity: number): Promise<void> {
+    await this.update(sessionId, session => {
+      const line = session.lines.find(candidate => candidate.key === key);
+      if (!line || !Number.isFinite(quantity) || quantity === line.quantity) {
+        return;
+      }
+      if (quantity <= 0) {
+        session.lines = session.lines.filter(candidate => candidate !== line);
+        return;
+      }
+      line.history.push(line.quantity);
+      line.quantity = Math.floor(quantity);
+    });
+  }
+
+  async adjustQuantity(sessionId: string, key: string, delta: number): Promise<void> {
+    const line = this.sessions.find(session => session.id === sessionId)?.lines.find(candidate => candidate.key === key);
+    if (line) {
+      await this.setQuantity(sessionId, key, line.quantity + delta);
+    }
+  }
+
+  /**
+   * Revert a line's last quantity change; undoing its first scan removes it
+   */
+  async undoLine(sessionId: string, key: string): Promise<void> {
+    await this.update(sessionId, session => {
+      const line = session.lines.find(candidate => candidate.key === key);
+      const previous = line?.history.pop();
+      if (!line || previous === undefined) {
+        return;
+      }
+      if (previous <= 0) {
+        session.lines = session.lines.filter(candidate => candidate !== line);
+      } else {
+        line.quantity = previous;
+      }
+    });
+  }
+
+  async removeLine(sessionId: string, key: string): Promise<void> {
+    await this.update(sessionId, session => {
+      session.lines = session.lines.filter(line => line.key !== key);
+    });
+  }
+
+  private getActive(): ScanSession | undefined {
+    return this.sessions.find(session => session.status === 'active');
+  }
+
+  private async pauseActive(): Promise<void> {
+    const active = this.getActive();
+    if (active) {
+      await this.update(active.id, session => {
+        session.status = 'paused';
+      });
+    }
+  }
+
+  private async update(id: string, change: (session: ScanSession) => void): Promise<void> {
+    await this.load();
+    const session = this.sessions.find(candidate => candidate.id === id);
+    if (!session) {
+      return;
+    }
+    change(session);
+    session.updatedAt = new Date().toISOString();
+    await this.persist(session);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = withStore(STORES.sessions, 'readonly', store =>
+        promisifyRequest(store.getAll() as IDBRequest<ScanSession[]>)
+      ).then(records => {
+        this.sessions = records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        this.notify();
+      }).catch(error => {
+        console.error('Error loading scan sessions:', error);
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(session: ScanSession): Promise<void> {
+    // Update the UI first; a failed write only loses the change on reload
+    this.notify();
+    try {
+      await withStore(STORES.sessions, 'readwrite', store => promisifyRequest(store.put(structuredClone(session))));
+    } catch (error) {
+      console.error('Error saving scan session:', error);
+    }
+  }
+
+  private snapshot(): SessionsSnapshot {
+    const sessions = this.sessions.map(session => ({
+      ...session,
+      lines: session.lines.map(line => ({ ...line, history: [...line.history] })),
+    }));
+    return {
+      sessions,
+      active: sessions.find(session => session.status === 'active') ?? null,
+      nextMultiplier: this.nextMultiplier,
+    };
+  }
+
+  private notify(): void {
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const scanSessions = new ScanSessionManager();
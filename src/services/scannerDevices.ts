@@ -0,0 +1,252 @@
+import type { BarcodeDetectionResult } from './barcodeDetectionService';
+import { validateForFormat } from './barcodeValidation';
+import { Gs1ParseError, parseGs1 } from './gs1';
+import { isHidSupported, pairedHidScanners, requestHidScanner } from './scanners/hidScanner';
+import { isSerialSupported, pairedSerialScanners, requestSerialScanner } from './scanners/serialScanner';
+import { MockScanner, type MockProtocol } from './scanners/mockScanner';
+import type { ScannerConnection, ScannerKind, ScannerRead } from './scanners/types';
+
+export type ScannerStatus = 'connecting' | 'connected' | 'disconnected' | 'error';
+
+export interface ScannerDeviceInfo {
+  id: string;
+  kind: ScannerKind;
+  label: string;
+  status: ScannerStatus;
+  error?: string;
+  reads: number;
+}
+
+export interface ScannerDevicesSnapshot {
+  hidSupported: boolean;
+  serialSupported: boolean;
+  devices: ScannerDeviceInfo[];
+  error?: string;
+}
+
+type SnapshotListener = (snapshot: ScannerDevicesSnapshot) => void;
+type ScanListener = (result: BarcodeDetectionResult, device: ScannerDeviceInfo) => void;
+
+interface DeviceEntry {
+  connection: ScannerConnection;
+  info: ScannerDeviceInfo;
+}
+
+/**
+ * A scanner read as a detection result. Scanners check digits themselves, so
+ * a failed format check here means the AIM identifier and data disagree.
+ */
+export const readToDetection = (read: ScannerRead): BarcodeDetectionResult => {
+  const base = { barcode: read.code, format: read.format };
+  try {
+    // The AIM identifier is what marks GS1-128 and GS1 DataMatrix data as GS1
+    const gs1 = parseGs1((read.aimId ?? '') + read.code) ?? undefined;
+    if (gs1) {
+      return { ...base, success: true, gs1 };
+    }
+  } catch (error) {
+    if (error instanceof Gs1ParseError) {
+      return { ...base, success: false, error: error.message };
+    }
+    throw error;
+  }
+
+  if (read.format) {
+    const validation = validateForFormat(read.code, read.format);
+    if (!validation.valid) {
+      return { ...base, success: false, error: validation.reason ?? 'Invalid barcode' };
+    }
+  }
+  return { ...base, success: true };
+};
+
+const describeError = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? `${fallback}: ${error.message}` : fallback;
+
+/**
+ * Scanners paired through WebHID (HID-POS mode) or Web Serial (CDC mode).
+ * The browser remembers permissions, so paired scanners reconnect on the
+ * next visit without asking again.
+ */
+export class ScannerDevices {
+  private entries = new Map<string, DeviceEntry>();
+  private error?: string;
+  private listeners = new Set<SnapshotListener>();
+  private scanListeners = new Set<ScanListener>();
+  private restorePromise: Promise<void> | null = null;
+
+  subscribe(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot());
+    void this.restore();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reads from every connected scanner, including rejected ones (success false)
+   */
+  onScan(listener: ScanListener): () => void {
+    this.scanListeners.add(listener);
+    return () => {
+      this.scanListeners.delete(listener);
+    };
+  }
+
+  async pairHid(): Promise<void> {
+    await this.pair(requestHidScanner);
+  }
+
+  async pairSerial(): Promise<void> {
+    await this.pair(requestSerialScanner);
+  }
+
+  /**
+   * Connect a simulated scanner, for trying the flow without hardware
+   */
+  async addMock(protocol: MockProtocol = 'hid-pos'): Promise<MockScanner> {
+    const scanner = new MockScanner(protocol);
+    await this.connect(scanner);
+    return scanner;
+  }
+
+  getConnection(id: string): ScannerConnection | undefined {
+    return this.entries.get(id)?.connection;
+  }
+
+  /**
+   * Reopen a scanner that was unplugged or failed
+   */
+  async reconnect(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (entry) {
+      await this.connect(entry.connection);
+    }
+  }
+
+  async disconnect(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+    try {
+      await entry.connection.close();
+    } catch (error) {
+      console.error('Error closing scanner:', error);
+    }
+    this.update(id, { status: 'disconnected', error: undefined });
+  }
+
+  /**
+   * Disconnect and revoke the permission, so the scanner isn't reconnected next time
+   */
+  async forget(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+    try {
+      await entry.connection.forget();
+    } catch (error) {
+      console.error('Error forgetting scanner:', error);
+    }
+    this.entries.delete(id);
+    this.notify();
+  }
+
+  private async pair(request: () => Promise<ScannerConnection | null>): Promise<void> {
+    this.error = undefined;
+    try {
+      const connection = await request();
+      if (connection) {
+        await this.connect(connection);
+      }
+    } catch (error) {
+      console.error('Error pairing scanner:', error);
+      this.error = describeError(error, 'Could not pair the scanner');
+    }
+    this.notify();
+  }
+
+  private async connect(connection: ScannerConnection): Promise<void> {
+    const existing = this.entries.get(connection.id);
+    if (existing?.info.status === 'connected' || existing?.info.status === 'connecting') {
+      return;
+    }
+    this.entries.set(connection.id, {
+      connection,
+      info: {
+        id: connection.id,
+        kind: connection.kind,
+        label: connection.label,
+        status: 'connecting',
+        reads: existing?.info.reads ?? 0,
+      },
+    });
+    this.notify();
+
+    try {
+      await connection.open(
+        read => this.handleRead(connection.id, read),
+        error => {
+          console.warn('Scanner disconnected:', connection.label, error ?? '');
+          this.update(connection.id, { status: 'disconnected', error: error ? describeError(error, 'Connection lost') : undefined });
+        }
+      );
+      this.update(connection.id, { status: 'connected', error: undefined });
+    } catch (error) {
+      console.error('Error opening scanner:', error);
+      this.update(connection.id, { status: 'error', error: describeError(error, 'Could not open the scanner') });
+    }
+  }
+
+  private handleRead(id: string, read: ScannerRead): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+    this.update(id, { reads: entry.info.reads + 1 });
+    const result = readToDetection(read);
+    const info = this.entries.get(id)?.info ?? entry.info;
+    this.scanListeners.forEach(listener => listener(result, info));
+  }
+
+  private restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = (async () => {
+        try {
+          const paired = [...await pairedHidScanners(), ...await pairedSerialScanners()];
+          await Promise.all(paired.map(connection => this.connect(connection)));
+        } catch (error) {
+          console.error('Error reconnecting paired scanners:', error);
+        }
+      })();
+    }
+    return this.restorePromise;
+  }
+
+  private update(id: string, changes: Partial<ScannerDeviceInfo>): void {
+    const entry = this.entries.get(id);
+    if (entry) {
+      entry.info = { ...entry.info, ...changes };
+      this.notify();
+    }
+  }
+
+  private snapshot(): ScannerDevicesSnapshot {
+    return {
+      hidSupported: isHidSupported(),
+      serialSupported: isSerialSupported(),
+      devices: [...this.entries.values()].map(entry => entry.info),
+      error: this.error,
+    };
+  }
+
+  private notify(): void {
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const scannerDevices = new ScannerDevices();
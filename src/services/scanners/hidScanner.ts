@@ -0,0 +1,138 @@
+import { HidPosReportParser } from './reports';
+import type { ScannerConnection, ScannerRead } from './types';
+
+// WebHID is not in TypeScript's DOM lib yet
+interface HIDDevice extends EventTarget {
+  readonly opened: boolean;
+  readonly vendorId: number;
+  readonly productId: number;
+  readonly productName: string;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  forget(): Promise<void>;
+}
+
+interface HIDInputReportEvent extends Event {
+  readonly device: HIDDevice;
+  readonly reportId: number;
+  readonly data: DataView;
+}
+
+interface HIDConnectionEvent extends Event {
+  readonly device: HIDDevice;
+}
+
+interface HIDDeviceFilter {
+  vendorId?: number;
+  usagePage?: number;
+}
+
+interface HID extends EventTarget {
+  getDevices(): Promise<HIDDevice[]>;
+  requestDevice(options: { filters: HIDDeviceFilter[] }): Promise<HIDDevice[]>;
+}
+
+/** Barcode scanner usage page from the HID Point of Sale usage tables */
+const HID_POS_USAGE_PAGE = 0x8c;
+
+const ZEBRA_VENDOR_ID = 0x05e0;
+const HONEYWELL_VENDOR_ID = 0x0c2e;
+
+const hid = (): HID | undefined => (navigator as Navigator & { hid?: HID }).hid;
+
+export const isHidSupported = (): boolean => hid() !== undefined;
+
+// The browser hands out the same HIDDevice object for a device on every call
+const deviceIds = new WeakMap<HIDDevice, string>();
+let nextDeviceId = 1;
+
+const idFor = (device: HIDDevice): string => {
+  let id = deviceIds.get(device);
+  if (!id) {
+    id = `hid-${nextDeviceId++}`;
+    deviceIds.set(device, id);
+  }
+  return id;
+};
+
+class HidScannerConnection implements ScannerConnection {
+  readonly id: string;
+  readonly kind = 'hid';
+  readonly label: string;
+  private device: HIDDevice;
+  private detach: (() => void) | null = null;
+
+  constructor(device: HIDDevice) {
+    this.device = device;
+    this.id = idFor(device);
+    this.label = device.productName || `HID scanner ${device.vendorId.toString(16)}:${device.productId.toString(16)}`;
+  }
+
+  async open(onRead: (read: ScannerRead) => void, onLost: (error?: unknown) => void): Promise<void> {
+    if (!this.device.opened) {
+      await this.device.open();
+    }
+    const parser = new HidPosReportParser();
+    const onInputReport = (event: Event): void => {
+      const { reportId, data } = event as HIDInputReportEvent;
+      const read = parser.push(reportId, data);
+      if (read) {
+        onRead(read);
+      }
+    };
+    const onDisconnect = (event: Event): void => {
+      if ((event as HIDConnectionEvent).device === this.device) {
+        this.detach?.();
+        onLost();
+      }
+    };
+
+    this.detach?.();
+    this.device.addEventListener('inputreport', onInputReport);
+    hid()?.addEventListener('disconnect', onDisconnect);
+    this.detach = () => {
+      this.device.removeEventListener('inputreport', onInputReport);
+      hid()?.removeEventListener('disconnect', onDisconnect);
+      this.detach = null;
+    };
+  }
+
+  async close(): Promise<void> {
+    this.detach?.();
+    if (this.device.opened) {
+      await this.device.close();
+    }
+  }
+
+  async forget(): Promise<void> {
+    await this.close();
+    await this.device.forget();
+  }
+}
+
+/**
+ * Show the browser's picker for HID-POS scanners. Resolves to null when the
+ * user closes it without choosing.
+ */
+export const requestHidScanner = async (): Promise<ScannerConnection | null> => {
+  const api = hid();
+  if (!api) {
+    return null;
+  }
+  const [device] = await api.requestDevice({
+    filters: [
+      { usagePage: HID_POS_USAGE_PAGE },
+      { vendorId: ZEBRA_VENDOR_ID },
+      { vendorId: HONEYWELL_VENDOR_ID },
+    ],
+  });
+  return device ? new HidScannerConnection(device) : null;
+};
+
+/**
+ * Scanners the user has paired before; the browser remembers the permission
+ */
+export const pairedHidScanners = async (): Promise<ScannerConnection[]> => {
+  const devices = await hid()?.getDevices() ?? [];
+  return devices.map(device => new HidScannerConnection(device));
+};
@@ -0,0 +1,90 @@
+import {
+  HID_POS_CONTINUED,
+  HID_POS_DATA_BYTES,
+  HID_POS_DATA_REPORT_ID,
+  HID_POS_REPORT_LENGTH,
+  HidPosReportParser,
+  SerialLineParser
+} from './reports';
+import type { ScannerConnection, ScannerRead } from './types';
+
+export type MockProtocol = 'hid-pos' | 'serial';
+
+let nextMockId = 1;
+
+/**
+ * Stand-in for a paired scanner. scan() encodes a barcode the way a real
+ * device would send it and runs it through the same report parser, so
+ * everything after the transport is exercised without hardware.
+ */
+export class MockScanner implements ScannerConnection {
+  readonly id = `mock-${nextMockId++}`;
+  readonly kind = 'mock';
+  readonly label: string;
+  readonly protocol: MockProtocol;
+  private onRead: ((read: ScannerRead) => void) | null = null;
+  private onLost: ((error?: unknown) => void) | null = null;
+
+  constructor(protocol: MockProtocol = 'hid-pos') {
+    this.protocol = protocol;
+    this.label = `Mock ${protocol === 'hid-pos' ? 'HID-POS' : 'serial'} scanner`;
+  }
+
+  async open(onRead: (read: ScannerRead) => void, onLost: (error?: unknown) => void): Promise<void> {
+    this.onRead = onRead;
+    this.onLost = onLost;
+  }
+
+  async close(): Promise<void> {
+    this.onRead = null;
+    this.onLost = null;
+  }
+
+  async forget(): Promise<void> {
+    await this.close();
+  }
+
+  /**
+   * Send a barcode as the device would. `aimId` is the symbology identifier
+   * a scanner configured for AIM IDs adds, e.g. "]E0".
+   */
+  scan(code: string, aimId = ''): void {
+    const onRead = this.onRead;
+    if (!onRead) {
+      return;
+    }
+    if (this.protocol === 'serial') {
+      const bytes = new TextEncoder().encode(`${aimId}${code}\r\n`);
+      // Split the line the way a USB CDC stream may deliver it
+      const parser = new SerialLineParser();
+      const middle = Math.ceil(bytes.length / 2);
+      [bytes.subarray(0, middle), bytes.subarray(middle)].forEach(chunk => parser.push(chunk).forEach(onRead));
+      return;
+    }
+
+    const parser = new HidPosReportParser();
+    const data = Uint8Array.from(code, char => char.charCodeAt(0) & 0xff);
+    for (let offset = 0; offset < data.length || offset === 0; offset += HID_POS_DATA_BYTES) {
+      const chunk = data.subarray(offset, offset + HID_POS_DATA_BYTES);
+      const report = new Uint8Array(HID_POS_REPORT_LENGTH);
+      report[0] = chunk.length;
+      report.set(Uint8Array.from(aimId.padEnd(3, '\0').slice(0, 3), char => char.charCodeAt(0)), 1);
+      report.set(chunk, 4);
+      if (offset + HID_POS_DATA_BYTES < data.length) {
+        report[HID_POS_REPORT_LENGTH - 1] = HID_POS_CONTINUED;
+      }
+      const read = parser.push(HID_POS_DATA_REPORT_ID, new DataView(report.buffer));
+      if (read) {
+        onRead(read);
+      }
+    }
+  }
+
+  /** Simulate the cable being pulled */
+  unplug(): void {
+    const onLost = this.onLost;
+    this.onRead = null;
+    this.onLost = null;
+    onLost?.(new Error('Mock scanner unplugged'));
+  }
+}
@@ -0,0 +1,73 @@
+import { parseAimId } from '../keyboardWedge';
+import type { ScannerRead } from './types';
+
+/** HID-POS "scanned data" input report, as sent by Honeywell and Zebra scanners in HID-POS mode */
+export const HID_POS_DATA_REPORT_ID = 0x02;
+
+/** Barcode bytes carried by one report; longer codes continue in the next */
+export const HID_POS_DATA_BYTES = 56;
+
+/**
+ * Total report length without the report ID: length byte, three symbology
+ * identifier bytes, the data, two vendor bytes and the flags byte
+ */
+export const HID_POS_REPORT_LENGTH = 1 + 3 + HID_POS_DATA_BYTES + 2 + 1;
+
+/** Bit in the last byte saying more of the same barcode follows */
+export const HID_POS_CONTINUED = 0x01;
+
+const latin1 = new TextDecoder('latin1');
+
+const toRead = (symbologyId: string, data: string): ScannerRead | null => {
+  if (!data) {
+    return null;
+  }
+  // Scanners without AIM identifiers enabled leave the symbology bytes zero
+  return symbologyId.startsWith(']') ? parseAimId(symbologyId + data) : { code: data };
+};
+
+/**
+ * Reassembles HID-POS input reports into reads. Each report holds up to 56
+ * bytes of the barcode; the continuation flag chains reports for longer codes
+ * such as GS1 DataMatrix.
+ */
+export class HidPosReportParser {
+  private pending = '';
+  private symbologyId = '';
+
+  push(reportId: number, report: DataView): ScannerRead | null {
+    if (reportId !== HID_POS_DATA_REPORT_ID || report.byteLength < 4) {
+      return null;
+    }
+    const length = Math.min(report.getUint8(0), HID_POS_DATA_BYTES, report.byteLength - 4);
+    if (!this.pending) {
+      this.symbologyId = latin1.decode(new Uint8Array(report.buffer, report.byteOffset + 1, 3)).replace(/\0/g, '');
+    }
+    this.pending += latin1.decode(new Uint8Array(report.buffer, report.byteOffset + 4, length));
+
+    const continued = (report.getUint8(report.byteLength - 1) & HID_POS_CONTINUED) !== 0;
+    if (continued && report.byteLength >= HID_POS_REPORT_LENGTH) {
+      return null;
+    }
+    const read = toRead(this.symbologyId, this.pending);
+    this.pending = '';
+    this.symbologyId = '';
+    return read;
+  }
+}
+
+/**
+ * Splits a serial (USB CDC) byte stream into reads, one per line. Chunks can
+ * end mid-barcode, so text is buffered until CR or LF.
+ */
+export class SerialLineParser {
+  private decoder = new TextDecoder('latin1');
+  private buffer = '';
+
+  push(chunk: Uint8Array): ScannerRead[] {
+    this.buffer += this.decoder.decode(chunk, { stream: true });
+    const lines = this.buffer.split(/\r\n|\r|\n/);
+    this.buffer = lines.pop() ?? '';
+    return lines.filter(line => line !== '').map(line => parseAimId(line));
+  }
+}
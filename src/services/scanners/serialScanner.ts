@@ -0,0 +1,148 @@
+import { SerialLineParser } from './reports';
+import type { ScannerConnection, ScannerRead } from './types';
+
+// Web Serial is not in TypeScript's DOM lib yet
+interface SerialPort extends EventTarget {
+  readonly readable: ReadableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  forget(): Promise<void>;
+  getInfo(): { usbVendorId?: number; usbProductId?: number };
+}
+
+interface Serial extends EventTarget {
+  getPorts(): Promise<SerialPort[]>;
+  requestPort(options?: { filters?: { usbVendorId?: number }[] }): Promise<SerialPort>;
+}
+
+/** USB CDC ignores it, but real RS-232 scanners default to 9600 8N1 */
+const BAUD_RATE = 9600;
+
+const KNOWN_VENDORS: Record<number, string> = {
+  0x05e0: 'Zebra',
+  0x0c2e: 'Honeywell',
+};
+
+const serial = (): Serial | undefined => (navigator as Navigator & { serial?: Serial }).serial;
+
+export const isSerialSupported = (): boolean => serial() !== undefined;
+
+const portIds = new WeakMap<SerialPort, string>();
+let nextPortId = 1;
+
+const idFor = (port: SerialPort): string => {
+  let id = portIds.get(port);
+  if (!id) {
+    id = `serial-${nextPortId++}`;
+    portIds.set(port, id);
+  }
+  return id;
+};
+
+// Serial ports have no product name, only USB IDs
+const labelFor = (port: SerialPort): string => {
+  const { usbVendorId, usbProductId } = port.getInfo();
+  if (usbVendorId === undefined) {
+    return 'Serial scanner';
+  }
+  const vendor = KNOWN_VENDORS[usbVendorId] ?? usbVendorId.toString(16).padStart(4, '0');
+  return `${vendor} serial scanner${usbProductId === undefined ? '' : ` (${usbProductId.toString(16).padStart(4, '0')})`}`;
+};
+
+class SerialScannerConnection implements ScannerConnection {
+  readonly id: string;
+  readonly kind = 'serial';
+  readonly label: string;
+  private port: SerialPort;
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  private reading: Promise<void> | null = null;
+
+  constructor(port: SerialPort) {
+    this.port = port;
+    this.id = idFor(port);
+    this.label = labelFor(port);
+  }
+
+  async open(onRead: (read: ScannerRead) => void, onLost: (error?: unknown) => void): Promise<void> {
+    if (!this.port.readable) {
+      await this.port.open({ baudRate: BAUD_RATE });
+    }
+    const readable = this.port.readable;
+    if (!readable) {
+      throw new Error('Serial port is not readable');
+    }
+    const reader = readable.getReader();
+    this.reader = reader;
+    this.reading = this.readLoop(reader, onRead).then(
+      // The stream ending on its own means the device went away
+      () => {
+        if (this.reader === reader) {
+          this.reader = null;
+          onLost();
+        }
+      },
+      error => {
+        if (this.reader === reader) {
+          this.reader = null;
+          onLost(error);
+        }
+      }
+    );
+  }
+
+  private async readLoop(reader: ReadableStreamDefaultReader<Uint8Array>, onRead: (read: ScannerRead) => void): Promise<void> {
+    const parser = new SerialLineParser();
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) {
+          return;
+        }
+        parser.push(value).forEach(onRead);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  async close(): Promise<void> {
+    const reader = this.reader;
+    this.reader = null;
+    if (reader) {
+      await reader.cancel().catch(() => undefined);
+      await this.reading;
+    }
+    if (this.port.readable) {
+      await this.port.close();
+    }
+  }
+
+  async forget(): Promise<void> {
+    await this.close();
+    await this.port.forget();
+  }
+}
+
+/**
+ * Show the browser's serial port picker. Resolves to null when the user
+ * closes it without choosing.
+ */
+export const requestSerialScanner = async (): Promise<ScannerConnection | null> => {
+  const api = serial();
+  if (!api) {
+    return null;
+  }
+  try {
+    return new SerialScannerConnection(await api.requestPort());
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotFoundError') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const pairedSerialScanners = async (): Promise<ScannerConnection[]> => {
+  const ports = await serial()?.getPorts() ?? [];
+  return ports.map(port => new SerialScannerConnection(port));
+};
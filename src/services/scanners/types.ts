@@ -0,0 +1,26 @@
+import type { BarcodeFormat } from '../decoders/formats';
+
+export type ScannerKind = 'hid' | 'serial' | 'mock';
+
+/** One barcode as a dedicated scanner reported it */
+export interface ScannerRead {
+  code: string;
+  /** AIM symbology identifier, e.g. "]E0", when the scanner sent one */
+  aimId?: string;
+  format?: BarcodeFormat;
+}
+
+/**
+ * A paired scanner, whatever transport it uses. Reads arrive already
+ * reassembled and split from their symbology identifier.
+ */
+export interface ScannerConnection {
+  readonly id: string;
+  readonly kind: ScannerKind;
+  readonly label: string;
+  /** Start receiving reads; onLost fires when the device goes away without close() */
+  open(onRead: (read: ScannerRead) => void, onLost: (error?: unknown) => void): Promise<void>;
+  close(): Promise<void>;
+  /** Revoke the browser's permission so the device isn't reconnected next time */
+  forget(): Promise<void>;
+}
@@ -0,0 +1,290 @@
+import type { ExpectedStockLine, VarianceLine, VarianceReport, VarianceStatus } from '../types';
+import { apiClient, describeApiError } from './apiClient';
+import { canonicalGtin } from './barcodeValidation';
+import { STORES, promisifyRequest, withStore } from './indexedDb';
+
+export type StockCountPhase = 'idle' | 'loading' | 'counting' | 'submitting' | 'submitted';
+
+/** A count in progress, persisted so a reload mid-count doesn't lose it */
+interface StockCountRecord {
+  locationId: string;
+  locationName?: string;
+  expected: ExpectedStockLine[];
+  counts: Record<string, number>;
+  /** Names for barcodes that weren't on the expected list */
+  names: Record<string, string>;
+  startedAt: string;
+}
+
+export interface StockCountSnapshot {
+  phase: StockCountPhase;
+  locationId?: string;
+  locationName?: string;
+  startedAt?: string;
+  /** Every expected or counted barcode, problems first */
+  lines: VarianceLine[];
+  totals: Record<VarianceStatus, number>;
+  lastBarcode?: string;
+  error?: string;
+  /** The report accepted by the server, once submitted */
+  submittedReport?: VarianceReport;
+}
+
+type SnapshotListener = (snapshot: StockCountSnapshot) => void;
+
+/** Scans arrive as canonical GTINs, so expected lines are held the same way */
+const canonicalLines = (lines: ExpectedStockLine[]): ExpectedStockLine[] =>
+  lines.map(line => ({ ...line, barcode: canonicalGtin(line.barcode) }));
+
+const STATUS_ORDER: Record<VarianceStatus, number> = { unexpected: 0, over: 1, under: 2, match: 3 };
+
+const emptyTotals = (): Record<VarianceStatus, number> => ({ match: 0, over: 0, under: 0, unexpected: 0 });
+
+/**
+ * Compare counted quantities with the expected list
+ */
+const reconcile = (record: StockCountRecord): VarianceLine[] => {
+  const lines: VarianceLine[] = record.expected.map(line => {
+    const counted = record.counts[line.barcode] ?? 0;
+    const variance = counted - line.expectedQuantity;
+    return {
+      barcode: line.barcode,
+      name: line.name,
+      expected: line.expectedQuantity,
+      counted,
+      variance,
+      status: variance === 0 ? 'match' : variance > 0 ? 'over' : 'under',
+    };
+  });
+
+  const expectedBarcodes = new Set(record.expected.map(line => line.barcode));
+  for (const [barcode, counted] of Object.entries(record.counts)) {
+    if (!expectedBarcodes.has(barcode) && counted > 0) {
+      lines.push({ barcode, name: record.names[barcode], expected: 0, counted, variance: counted, status: 'unexpected' });
+    }
+  }
+
+  return lines.sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.barcode.localeCompare(b.barcode));
+};
+
+const totalsFor = (lines: VarianceLine[]): Record<VarianceStatus, number> =>
+  lines.reduce((totals, line) => ({ ...totals, [line.status]: totals[line.status] + 1 }), emptyTotals());
+
+/**
+ * Cycle count for one location: load the expected stock list, count scans
+ * against it, then submit the variance report
+ */
+export class StockCount {
+  private record: StockCountRecord | null = null;
+  private phase: StockCountPhase = 'idle';
+  private error?: string;
+  private lastBarcode?: string;
+  private submittedReport?: VarianceReport;
+  private listeners = new Set<SnapshotListener>();
+  private restorePromise: Promise<void> | null = null;
+
+  subscribe(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot());
+    void this.restore();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * True while scans belong to the count rather than /api/scan, including
+   * while it is being submitted (when they are turned away)
+   */
+  isCounting(): boolean {
+    return this.phase === 'counting' || this.phase === 'submitting';
+  }
+
+  /**
+   * Load the expected list for a location and start counting from zero
+   */
+  async start(locationId: string): Promise<void> {
+    await this.restore();
+    this.phase = 'loading';
+    this.error = undefined;
+    this.submittedReport = undefined;
+    this.notify();
+
+    try {
+      const stockList = await apiClient.getStockList(locationId);
+      const record: StockCountRecord = {
+        locationId: stockList.locationId,
+        locationName: stockList.locationName,
+        expected: canonicalLines(stockList.lines),
+        counts: {},
+        names: {},
+        startedAt: new Date().toISOString(),
+      };
+      // Saved before it replaces the count in memory, so a failure leaves both on the old count
+      await this.save(record);
+      this.record = record;
+      this.lastBarcode = undefined;
+      this.phase = 'counting';
+      this.notify();
+    } catch (error) {
+      console.error('Error starting stock count:', error);
+      // Any count already in progress is still the one on disk; carry on with it
+      this.phase = this.record ? 'counting' : 'idle';
+      this.error = describeApiError(error, 'Could not start the stock count');
+      this.notify();
+      throw error;
+    }
+  }
+
+  /**
+   * Add `quantity` of a barcode to the count, returning its updated line.
+   * Nothing is recorded while the report is being submitted, since the
+   * count is cleared once the server accepts it.
+   */
+  async count(barcode: string, quantity: number = 1, name?: string): Promise<VarianceLine | undefined> {
+    if (!this.record || this.phase !== 'counting') {
+      return undefined;
+    }
+    this.record.counts[barcode] = (this.record.counts[barcode] ?? 0) + quantity;
+    if (name && !this.record.names[barcode]) {
+      this.record.names[barcode] = name;
+    }
+    this.lastBarcode = barcode;
+    await this.persist();
+    return reconcile(this.record).find(line => line.barcode === barcode);
+  }
+
+  /**
+   * Correct the counted quantity for a barcode
+   */
+  async setCount(barcode: string, counted: number): Promise<void> {
+    if (!this.record || !Number.isFinite(counted)) {
+      return;
+    }
+    this.record.counts[barcode] = Math.max(0, Math.floor(counted));
+    await this.persist();
+  }
+
+  buildReport(): VarianceReport | null {
+    if (!this.record) {
+      return null;
+    }
+    const lines = reconcile(this.record);
+    return {
+      locationId: this.record.locationId,
+      startedAt: this.record.startedAt,
+      completedAt: new Date().toISOString(),
+      lines,
+      totals: totalsFor(lines),
+    };
+  }
+
+  /**
+   * Send the variance report; the count is finished once the server accepts it
+   */
+  async submit(): Promise<string | undefined> {
+    const report = this.buildReport();
+    if (!report || this.phase !== 'counting') {
+      return undefined;
+    }
+
+    this.phase = 'submitting';
+    this.error = undefined;
+    this.notify();
+    try {
+      const message = await apiClient.submitVarianceReport(report);
+      await this.clear();
+      this.phase = 'submitted';
+      this.submittedReport = report;
+      this.notify();
+      return message;
+    } catch (error) {
+      console.error('Error submitting variance report:', error);
+      this.phase = 'counting';
+      this.error = describeApiError(error, 'Could not submit the variance report');
+      this.notify();
+      throw error;
+    }
+  }
+
+  /**
+   * Abandon the count in progress, or dismiss a submitted one
+   */
+  async cancel(): Promise<void> {
+    await this.clear();
+    this.phase = 'idle';
+    this.error = undefined;
+    this.submittedReport = undefined;
+    this.notify();
+  }
+
+  private restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = withStore(STORES.stockCounts, 'readonly', store =>
+        promisifyRequest(store.getAll() as IDBRequest<StockCountRecord[]>)
+      ).then(records => {
+        if (records[0] && !this.record) {
+          this.record = { ...records[0], expected: canonicalLines(records[0].expected) };
+          this.phase = 'counting';
+          this.notify();
+        }
+      }).catch(error => {
+        console.error('Error restoring stock count:', error);
+      });
+    }
+    return this.restorePromise;
+  }
+
+  private async persist(): Promise<void> {
+    this.notify();
+    const record = this.record;
+    if (!record) {
+      return;
+    }
+    try {
+      await this.save(record);
+    } catch (error) {
+      console.error('Error saving stock count:', error);
+    }
+  }
+
+  private async save(record: StockCountRecord): Promise<void> {
+    await withStore(STORES.stockCounts, 'readwrite', store => {
+      // Only one count runs at a time
+      store.clear();
+      return promisifyRequest(store.put(structuredClone(record)));
+    });
+  }
+
+  private async clear(): Promise<void> {
+    this.record = null;
+    this.lastBarcode = undefined;
+    try {
+      await withStore(STORES.stockCounts, 'readwrite', store => promisifyRequest(store.clear()));
+    } catch (error) {
+      console.error('Error clearing stock count:', error);
+    }
+  }
+
+  private snapshot(): StockCountSnapshot {
+    const lines = this.record ? reconcile(this.record) : [];
+    return {
+      phase: this.phase,
+      locationId: this.record?.locationId,
+      locationName: this.record?.locationName,
+      startedAt: this.record?.startedAt,
+      lines,
+      totals: totalsFor(lines),
+      lastBarcode: this.lastBarcode,
+      error: this.error,
+      submittedReport: this.submittedReport,
+    };
+  }
+
+  private notify(): void {
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const stockCount = new StockCount();
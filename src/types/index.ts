@@ -1,17 +1,121 @@
+/** GS1 application identifier -> raw value, e.g. { "01": "09501101530003", "17": "270331" } */
+export type Gs1Fields = Record<string, string>;
+
 export interface ScannedItem {
   id: number;
   barcode: string;
   name: string;
   price: number;
   timestamp: string;
+  /** Lot, expiry, serial etc. when the scanned code carried GS1 data */
+  gs1?: Gs1Fields;
+  /** Symbology reported by the decoder, e.g. ean_13; absent for typed codes */
+  format?: string;
+  /** Units this item stands for; 1 when omitted */
+  quantity?: number;
+  note?: string;
 }
 
-export interface ApiResponse<T = any> {
+export interface ApiResponse<T = unknown> {
   data?: T;
   error?: string;
   message?: string;
 }
 
+export type ScanSource = 'manual' | 'wedge' | 'device' | 'camera' | 'upload' | 'import';
+
 export interface ScanRequest {
   barcode: string;
-}
\ No newline at end of file
+  /** ISO time the scan happened; set when a queued scan is replayed later */
+  scannedAt?: string;
+  source?: ScanSource;
+  gs1?: Gs1Fields;
+  format?: string;
+  /** Units this scan stands for, e.g. 12 after typing "12*"; 1 when omitted */
+  quantity?: number;
+  /** Same on every replay of a queued scan, so the server can drop duplicates */
+  clientScanId?: string;
+}
+
+export interface CameraScanRequest {
+  imageData: string;
+}
+
+export interface Product {
+  barcode: string;
+  name: string;
+  price: number;
+  category?: string;
+}
+
+export interface CreateProductRequest {
+  barcode: string;
+  name: string;
+  price: number;
+  category?: string;
+}
+
+/** Fields of a scanned item that can be corrected after the scan */
+export type UpdateItemRequest = Partial<Pick<ScannedItem, 'name' | 'price' | 'quantity' | 'note'>>;
+
+export interface ExpectedStockLine {
+  barcode: string;
+  name?: string;
+  expectedQuantity: number;
+}
+
+/** What the system thinks is on hand at a location, the baseline for a stock count */
+export interface StockList {
+  locationId: string;
+  locationName?: string;
+  lines: ExpectedStockLine[];
+}
+
+export type VarianceStatus = 'match' | 'over' | 'under' | 'unexpected';
+
+export interface VarianceLine {
+  barcode: string;
+  name?: string;
+  expected: number;
+  counted: number;
+  /** counted - expected */
+  variance: number;
+  status: VarianceStatus;
+}
+
+export interface VarianceReport {
+  locationId: string;
+  startedAt: string;
+  completedAt: string;
+  lines: VarianceLine[];
+  totals: Record<VarianceStatus, number>;
+}
+
+export interface PickOrderLine {
+  barcode: string;
+  name?: string;
+  quantity: number;
+}
+
+export interface PickOrder {
+  orderId: string;
+  customer?: string;
+  lines: PickOrderLine[];
+}
+
+export type ShortageReason = 'out_of_stock' | 'damaged' | 'not_found' | 'customer_request' | 'other';
+
+export interface PickedLine {
+  barcode: string;
+  ordered: number;
+  picked: number;
+  /** Required when picked < ordered */
+  shortageReason?: ShortageReason;
+}
+
+export interface PickCompletion {
+  orderId: string;
+  startedAt: string;
+  completedAt: string;
+  lines: PickedLine[];
+}
@@ -0,0 +1,75 @@
+// quagga ships type definitions but doesn't reference them from package.json,
+// and they predate `decoder.multiple`; this covers the subset the app uses.
+declare module 'quagga' {
+  export interface QuaggaDecodedCode {
+    code: number;
+    start: number;
+    end: number;
+    error?: number;
+  }
+
+  export interface QuaggaCodeResult {
+    code: string;
+    format: string;
+    decodedCodes: QuaggaDecodedCode[];
+  }
+
+  export interface QuaggaResult {
+    codeResult?: QuaggaCodeResult;
+    /** Corners of the located barcode, as [x, y] pairs */
+    box?: [number, number][];
+    /** Every candidate box the locator found in the frame */
+    boxes?: [number, number][][];
+    line?: { x: number; y: number }[];
+  }
+
+  export interface QuaggaDetection extends QuaggaResult {
+    codeResult: QuaggaCodeResult;
+  }
+
+  export interface QuaggaConfig {
+    src?: string;
+    inputStream?: {
+      name?: string;
+      type?: string;
+      target?: HTMLElement | null;
+      constraints?: MediaTrackConstraints;
+      area?: { top?: string; right?: string; bottom?: string; left?: string };
+      size?: number;
+      singleChannel?: boolean;
+    };
+    locator?: {
+      patchSize?: 'x-small' | 'small' | 'medium' | 'large' | 'x-large';
+      halfSample?: boolean;
+    };
+    numOfWorkers?: number;
+    frequency?: number;
+    decoder?: {
+      readers: string[];
+      multiple?: boolean;
+    };
+    locate?: boolean;
+  }
+
+  interface QuaggaStatic {
+    init(config: QuaggaConfig, callback: (err?: unknown) => void): void;
+    start(): void;
+    stop(): void;
+    pause(): void;
+    onDetected(callback: (data: QuaggaDetection) => void): void;
+    offDetected(callback?: (data: QuaggaDetection) => void): void;
+    onProcessed(callback: (data?: QuaggaResult) => void): void;
+    offProcessed(callback?: (data?: QuaggaResult) => void): void;
+    decodeSingle(config: QuaggaConfig, callback: (result?: QuaggaResult | QuaggaResult[]) => void): void;
+    CameraAccess: {
+      getActiveTrack(): MediaStreamTrack | undefined;
+    };
+    canvas: {
+      ctx: { image: CanvasRenderingContext2D; overlay: CanvasRenderingContext2D };
+      dom: { image: HTMLCanvasElement; overlay: HTMLCanvasElement };
+    };
+  }
+
+  const Quagga: QuaggaStatic;
+  export default Quagga;
+}
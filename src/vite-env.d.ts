@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_TIMEOUT_MS?: string;
+  /** Comma-separated domains whose links scanned QR codes may open */
+  readonly VITE_LINK_ALLOWLIST?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,39 @@
+import { JsqrEngine } from '../services/decoders/jsqrEngine';
+import { NativeEngine } from '../services/decoders/nativeEngine';
+import type { DecoderEngine } from '../services/decoders/types';
+import type { DecodeWorkerRequest, DecodeWorkerResponse } from '../services/decodeWorkerPool';
+
+// Only engines that work on an OffscreenCanvas live here; see DecoderEngine.runsInWorker
+const engines: Record<string, DecoderEngine> = {
+  jsqr: new JsqrEngine(),
+  native: new NativeEngine(),
+};
+
+self.onmessage = async (event: MessageEvent<DecodeWorkerRequest>) => {
+  const { id, engineId, config, bitmap } = event.data;
+  const started = performance.now();
+  let response: DecodeWorkerResponse;
+
+  try {
+    const engine = engines[engineId];
+    if (!engine) {
+      throw new Error(`Engine ${engineId} cannot run in a worker`);
+    }
+    engine.configure(config);
+
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get OffscreenCanvas context');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const results = await engine.decodeAll(canvas);
+    response = { id, results, workerMs: performance.now() - started };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error), workerMs: performance.now() - started };
+  }
+
+  self.postMessage(response);
+};